@@ -0,0 +1,201 @@
+import { Mat4 } from './index';
+import type { GltfData, SkinData, AnimationClip, AnimationChannel, AnimationPose, NodePose } from './index';
+
+/**
+ * Container for util functions for playing back animation clips
+ *
+ * Animation time is driven by the user, i.e.
+ * ```js
+ * const pose = Animation.sample(clip, time);
+ * const joints = Animation.jointMatrices(gltf, skin, pose);
+ * renderer.updateObject({ pipelineId, objectId, jointMatrices: joints });
+ * ```
+ */
+class Animation {
+  // evaluate all channels of clip at time (in seconds)
+  static sample(clip: AnimationClip, time: number, loop: boolean = true): AnimationPose {
+    let t = time;
+    if (loop && clip.duration > 0) t = ((time % clip.duration) + clip.duration) % clip.duration;
+    else t = Math.min(Math.max(time, 0), clip.duration);
+    // build pose
+    const pose: AnimationPose = {};
+    clip.channels.forEach(channel => {
+      const value = this.sampleChannel(channel, t);
+      if (!pose[channel.node]) pose[channel.node] = {};
+      const nodePose = pose[channel.node];
+      switch (channel.path) {
+        case "translation":
+          nodePose.translation = [value[0], value[1], value[2]];
+          break;
+        case "rotation":
+          nodePose.rotation = [value[0], value[1], value[2], value[3]];
+          break;
+        case "scale":
+          nodePose.scale = [value[0], value[1], value[2]];
+          break;
+        case "weights":
+          nodePose.weights = value;
+          break;
+        default:
+          break;
+      }
+    });
+    return pose;
+  }
+  // blend 2 poses together, where weight 0 is poseA and weight 1 is poseB
+  static blend(poseA: AnimationPose, poseB: AnimationPose, weight: number): AnimationPose {
+    const pose: AnimationPose = {};
+    const nodes = new Set([...Object.keys(poseA), ...Object.keys(poseB)].map(Number));
+    nodes.forEach(node => {
+      const a: NodePose = poseA[node] ?? {};
+      const b: NodePose = poseB[node] ?? {};
+      const out: NodePose = {};
+      // properties only in one pose are kept as is
+      if (a.translation && b.translation) out.translation = this.lerp(a.translation, b.translation, weight) as [number, number, number];
+      else out.translation = a.translation ?? b.translation;
+      if (a.rotation && b.rotation) out.rotation = this.slerp(a.rotation, b.rotation, weight);
+      else out.rotation = a.rotation ?? b.rotation;
+      if (a.scale && b.scale) out.scale = this.lerp(a.scale, b.scale, weight) as [number, number, number];
+      else out.scale = a.scale ?? b.scale;
+      if (a.weights && b.weights) out.weights = this.lerp(a.weights, b.weights, weight);
+      else out.weights = a.weights ?? b.weights;
+      pose[node] = out;
+    });
+    return pose;
+  }
+  // world matrices of every node in gltf file, with pose applied
+  static nodeMatrices(data: GltfData, pose: AnimationPose = {}): Array<Float32Array> {
+    const nodes = data.nodes ?? [];
+    const local: Array<Float32Array> = nodes.map((node, i) => {
+      const p = pose[i];
+      if (!p && node.matrix && node.matrix.length === 16) return new Float32Array(node.matrix);
+      return Mat4.compose(
+        p?.translation ?? node.translation ?? [0, 0, 0],
+        p?.rotation ?? node.rotation ?? [0, 0, 0, 1],
+        p?.scale ?? node.scale ?? [1, 1, 1],
+      );
+    });
+    // find parents
+    const parents: Array<number> = nodes.map(() => -1);
+    nodes.forEach((node, i) => node.children?.forEach(c => parents[c] = i));
+    // resolve world matrices from root down
+    const world: Array<Float32Array | undefined> = nodes.map(() => undefined);
+    const resolve = (i: number, depth: number): Float32Array => {
+      const cached = world[i];
+      if (cached) return cached;
+      if (depth > nodes.length) throw new Error(`Cycle detected at node ${i}`);
+      const m = parents[i] === -1 ? local[i] : Mat4.multiply(resolve(parents[i], depth + 1), local[i]);
+      world[i] = m;
+      return m;
+    };
+    return nodes.map((_, i) => resolve(i, 0));
+  }
+  // morph weights of node, with pose applied
+  static morphWeights(data: GltfData, node: number, pose: AnimationPose = {}): Array<number> {
+    const n = data.nodes?.[node];
+    if (!n) throw new Error(`Could not find node ${node}`);
+    const meshWeights = typeof n.mesh === 'number' ? data.meshes[n.mesh]?.weights : undefined;
+    return pose[node]?.weights ?? n.weights ?? meshWeights ?? [];
+  }
+  // joint matrices for skin (16 floats per joint), with pose applied
+  static jointMatrices(data: GltfData, skin: SkinData, pose: AnimationPose = {}): Float32Array {
+    const world = this.nodeMatrices(data, pose);
+    const output = new Float32Array(skin.joints.length * 16);
+    skin.joints.forEach((joint, i) => {
+      const jointWorld = world[joint];
+      if (!jointWorld) throw new Error(`Could not find joint node ${joint}`);
+      const inverseBind = skin.inverseBindMatrices.subarray(i * 16, i * 16 + 16);
+      output.set(Mat4.multiply(jointWorld, inverseBind), i * 16);
+    });
+    return output;
+  }
+  // evaluate single channel at time
+  private static sampleChannel(channel: AnimationChannel, time: number): Array<number> {
+    const { times, values, interpolation } = channel;
+    const keys = times.length;
+    const cubic = interpolation === "CUBICSPLINE";
+    const size = values.length / keys / (cubic ? 3 : 1);
+    // read value at keyframe (skipping cubic spline tangents)
+    const valueAt = (k: number, part: number = 1): Array<number> => {
+      const start = cubic ? (k * 3 + part) * size : k * size;
+      return Array.from(values.subarray(start, start + size));
+    };
+    if (keys === 0) return [];
+    if (time <= times[0]) return valueAt(0);
+    if (time >= times[keys - 1]) return valueAt(keys - 1);
+    // find keyframe before time
+    let lo = 0, hi = keys - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] <= time) lo = mid;
+      else hi = mid;
+    }
+    const dt = times[hi] - times[lo];
+    const t = dt > 0 ? (time - times[lo]) / dt : 0;
+    const isRotation = channel.path === "rotation";
+    switch (interpolation) {
+      case "STEP":
+        return valueAt(lo);
+      case "CUBICSPLINE": {
+        const p0 = valueAt(lo);
+        const m0 = valueAt(lo, 2);
+        const p1 = valueAt(hi);
+        const m1 = valueAt(hi, 0);
+        const t2 = t * t;
+        const t3 = t2 * t;
+        const out = p0.map((_, i) => (2 * t3 - 3 * t2 + 1) * p0[i]
+          + (t3 - 2 * t2 + t) * dt * m0[i]
+          + (-2 * t3 + 3 * t2) * p1[i]
+          + (t3 - t2) * dt * m1[i]);
+        return isRotation ? this.normalizeQuat(out) : out;
+      }
+      case "LINEAR":
+      default:
+        if (isRotation) {
+          const a = valueAt(lo), b = valueAt(hi);
+          return this.slerp([a[0], a[1], a[2], a[3]], [b[0], b[1], b[2], b[3]], t);
+        }
+        return this.lerp(valueAt(lo), valueAt(hi), t);
+    }
+  }
+  // linear interpolation between 2 arrays
+  private static lerp(a: Array<number>, b: Array<number>, t: number): Array<number> {
+    return a.map((v, i) => v + (b[i] - v) * t);
+  }
+  // spherical interpolation between 2 quaternions
+  private static slerp(
+    a: [number, number, number, number],
+    b: [number, number, number, number],
+    t: number
+  ): [number, number, number, number] {
+    let [bx, by, bz, bw] = b;
+    let cos = a[0] * bx + a[1] * by + a[2] * bz + a[3] * bw;
+    // take shortest path
+    if (cos < 0) {
+      cos = -cos;
+      bx = -bx; by = -by; bz = -bz; bw = -bw;
+    }
+    let s0 = 1 - t, s1 = t;
+    if (cos < 0.9995) {
+      const theta = Math.acos(cos);
+      const sin = Math.sin(theta);
+      s0 = Math.sin((1 - t) * theta) / sin;
+      s1 = Math.sin(t * theta) / sin;
+    }
+    const out = this.normalizeQuat([
+      s0 * a[0] + s1 * bx,
+      s0 * a[1] + s1 * by,
+      s0 * a[2] + s1 * bz,
+      s0 * a[3] + s1 * bw,
+    ]);
+    return [out[0], out[1], out[2], out[3]];
+  }
+  // normalize quaternion
+  private static normalizeQuat(q: Array<number>): Array<number> {
+    const m = Math.hypot(q[0], q[1], q[2], q[3]);
+    if (m <= 0) return [0, 0, 0, 1];
+    return q.map(v => v / m);
+  }
+}
+
+export default Animation;
\ No newline at end of file
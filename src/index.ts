@@ -3,6 +3,9 @@ import Renderer from "./renderer";
 import Vec from "./vec";
 import Mat4 from "./mat4";
 import ModelLoader from "./modelLoader";
+import Animation from "./animation";
+import MeshUtils from "./meshUtils";
+import ModelExporter from "./modelExporter";
 
 // structs for obj
 export interface VertexGroup {
@@ -11,45 +14,297 @@ export interface VertexGroup {
   normal: [number, number, number],
 }
 
+// material from obj mtl file
+export interface ObjMaterial {
+  name: string,
+  ambient: [number, number, number],
+  diffuse: [number, number, number],
+  specular: [number, number, number],
+  shininess: number,
+  opacity: number,
+  diffuseMap?: string,
+  bumpMap?: string,
+  diffuseTextureId?: number,
+  bumpTextureId?: number,
+}
+
+// obj shape data for a single object/group/material
+export interface ObjGroup extends Shape {
+  name: string,
+  materialName?: string,
+  material?: ObjMaterial,
+  smoothingGroups?: Array<number>,
+}
+
+// stl shape data, with per vertex colors if the file uses a color extension
+export interface StlShape extends Shape {
+  colors?: Array<[number, number, number, number]>,
+}
+
 // structs for gltf
 export interface GltfPrimitive {
-  attributes: any,
-  indices: number,
+  attributes: { [key: string]: number },
+  indices?: number,
+  material?: number,
+  mode?: number,
+  targets?: Array<{ [key: string]: number }>,
 }
 
 export interface GltfMesh {
   name: string,
   primitives: Array<GltfPrimitive>,
+  weights?: Array<number>,
+}
+
+export interface GltfNode {
+  name?: string,
+  mesh?: number,
+  children?: Array<number>,
+  matrix?: Array<number>,
+  translation?: [number, number, number],
+  rotation?: [number, number, number, number],
+  scale?: [number, number, number],
+  skin?: number,
+  weights?: Array<number>,
+}
+
+export interface GltfSkin {
+  name?: string,
+  joints: Array<number>,
+  inverseBindMatrices?: number,
+  skeleton?: number,
+}
+
+export interface GltfAnimation {
+  name?: string,
+  channels: Array<{
+    sampler: number,
+    target: { node?: number, path: string },
+  }>,
+  samplers: Array<{
+    input: number,
+    output: number,
+    interpolation?: 'LINEAR' | 'STEP' | 'CUBICSPLINE',
+  }>,
+}
+
+export interface GltfScene {
+  name?: string,
+  nodes?: Array<number>,
 }
 
 export interface GltfBuffer {
   byteLength: number,
-  uri: string,
+  uri?: string,
 }
 
 export interface GltfBufferView {
   buffer: number,
   byteLength: number,
-  byteOffset: number,
-  target: number,
+  byteOffset?: number,
+  byteStride?: number,
+  target?: number,
+}
+
+export interface GltfImage {
+  name?: string,
+  uri?: string,
+  mimeType?: string,
+  bufferView?: number,
+}
+
+export interface GltfSampler {
+  magFilter?: number,
+  minFilter?: number,
+  wrapS?: number,
+  wrapT?: number,
+}
+
+export interface GltfTexture {
+  name?: string,
+  sampler?: number,
+  source?: number,
+}
+
+export interface GltfTextureInfo {
+  index: number,
+  texCoord?: number,
+  scale?: number,
+  strength?: number,
+}
+
+export interface GltfMaterial {
+  name?: string,
+  pbrMetallicRoughness?: {
+    baseColorFactor?: [number, number, number, number],
+    baseColorTexture?: GltfTextureInfo,
+    metallicFactor?: number,
+    roughnessFactor?: number,
+    metallicRoughnessTexture?: GltfTextureInfo,
+  },
+  normalTexture?: GltfTextureInfo,
+  occlusionTexture?: GltfTextureInfo,
+  emissiveTexture?: GltfTextureInfo,
+  emissiveFactor?: [number, number, number],
+  alphaMode?: 'OPAQUE' | 'MASK' | 'BLEND',
+  alphaCutoff?: number,
+  doubleSided?: boolean,
 }
 
 export interface GltfAccessor {
-  bufferView: number,
+  bufferView?: number,
+  byteOffset?: number,
   componentType: number,
+  normalized?: boolean,
   count: number,
   type: string,
+  min?: Array<number>,
+  max?: Array<number>,
+  sparse?: GltfSparse,
   [key: string]: any
 }
 
+// sparse accessor values, substituted into the base accessor by index
+export interface GltfSparse {
+  count: number,
+  indices: { bufferView: number, byteOffset?: number, componentType: number },
+  values: { bufferView: number, byteOffset?: number },
+}
+
 export interface GltfData {
   accessors: Array<GltfAccessor>,
   bufferViews: Array<GltfBufferView>,
   buffers: Array<GltfBuffer>,
   meshes: Array<GltfMesh>,
+  scene?: number,
+  scenes?: Array<GltfScene>,
+  nodes?: Array<GltfNode>,
+  skins?: Array<GltfSkin>,
+  animations?: Array<GltfAnimation>,
+  materials?: Array<GltfMaterial>,
+  textures?: Array<GltfTexture>,
+  images?: Array<GltfImage>,
+  samplers?: Array<GltfSampler>,
+  extensionsUsed?: Array<string>,
+  extensionsRequired?: Array<string>,
+  // BIN chunk from a .glb file, used by buffers without a uri
+  binaryChunk?: ArrayBuffer,
+  // buffer contents passed to parseGltf, by buffer index
+  bufferData?: Array<ArrayBuffer>,
   [key: string]: any
 }
 
+/**
+ * Options for resolving external gltf resources (buffers and images)
+ * 
+ * Resources are resolved in order of:
+ * - buffer data passed to parseGltf
+ * - embedded glb binary chunk (if uri is missing)
+ * - base64 data uri
+ * - uriMap entry
+ * - resolver callback
+ * - fetch from baseUrl
+ * 
+ * @param {string} baseUrl url prefix for fetching relative uris
+ * @param {Object} uriMap in-memory resources keyed by uri
+ * @param {Function} resolver custom callback returning resource data for a uri
+ */
+export interface GltfLoadOptions {
+  baseUrl?: string,
+  uriMap?: Map<string, ArrayBuffer> | { [uri: string]: ArrayBuffer },
+  resolver?: (uri: string) => Promise<ArrayBuffer | undefined> | ArrayBuffer | undefined,
+}
+
+/**
+ * Mesh to be written by the model exporter (gltf/glb/obj)
+ * 
+ * @param {string} name mesh and node name
+ * @param {Shape | BufferShape} shape vertex data
+ * @param {Float32Array} transform node matrix (column-major)
+ * @param {string} texture uri of base color texture (relative path or data uri)
+ * @param {Array<number>} color base color factor (rgba)
+ * @param {boolean} flipY flip v coordinates, i.e. when writing Primitives/obj shapes to gltf (or gltf shapes to obj)
+ */
+export interface ExportMesh {
+  name?: string,
+  shape: Shape | BufferShape,
+  transform?: Float32Array | Array<number>,
+  texture?: string,
+  color?: [number, number, number, number],
+  flipY?: boolean,
+}
+
+// mesh node from a gltf scene with its world transform
+export interface GltfSceneObject {
+  name: string,
+  node: number,
+  mesh: number,
+  skin?: number,
+  primitives: Array<GltfPrimitiveShape>,
+  transform: Float32Array,
+  // node morph weights, overriding mesh defaults
+  morphWeights?: Array<number>,
+}
+
+// skin joints with inverse bind matrices (16 floats per joint)
+export interface SkinData {
+  name: string,
+  joints: Array<number>,
+  inverseBindMatrices: Float32Array,
+  skeleton?: number,
+}
+
+// keyframes for a single animated node property
+export interface AnimationChannel {
+  node: number,
+  path: 'translation' | 'rotation' | 'scale' | 'weights',
+  interpolation: 'LINEAR' | 'STEP' | 'CUBICSPLINE',
+  times: Float32Array,
+  values: Float32Array,
+}
+
+// animation clip information
+export interface AnimationClip {
+  name: string,
+  duration: number,
+  channels: Array<AnimationChannel>,
+}
+
+// animated node properties, overriding gltf node values
+export interface NodePose {
+  translation?: [number, number, number],
+  rotation?: [number, number, number, number],
+  scale?: [number, number, number],
+  weights?: Array<number>,
+}
+
+// node poses keyed by node index
+export type AnimationPose = { [node: number]: NodePose };
+
+/**
+ * PBR metallic-roughness material from a gltf file, with
+ * textures uploaded into the renderer texture cache
+ * 
+ * Texture ids can be passed into pipeline options as texture1Id/texture2Id
+ */
+export interface GltfMaterialData {
+  name: string,
+  baseColorFactor: [number, number, number, number],
+  baseColorTextureId?: number,
+  metallicFactor: number,
+  roughnessFactor: number,
+  metallicRoughnessTextureId?: number,
+  normalTextureId?: number,
+  normalScale: number,
+  occlusionTextureId?: number,
+  occlusionStrength: number,
+  emissiveFactor: [number, number, number],
+  emissiveTextureId?: number,
+  alphaMode: 'OPAQUE' | 'MASK' | 'BLEND',
+  alphaCutoff: number,
+  doubleSided: boolean,
+}
+
 // render object information
 export interface RenderObject {
   visible: boolean,
@@ -62,6 +317,24 @@ export interface RenderObject {
   indexCount?: number,
   indexType: GPUIndexFormat,
   instances?: number,
+  jointBuffer?: GPUBuffer,
+  weightBuffer?: GPUBuffer,
+  morph?: RenderMorph,
+  colorBuffer?: GPUBuffer,
+  tangentBuffer?: GPUBuffer,
+  // set once a missing vertex buffer has been reported, so render only warns once
+  missingWarned?: boolean,
+  // local bounds, and bounds transformed by the last model matrix
+  bounds?: Bounds,
+  worldBounds?: Bounds,
+  model?: Float32Array,
+}
+
+// cpu side morph target data for render object
+export interface RenderMorph {
+  vertices: Float32Array,
+  normals: Float32Array,
+  targets: Array<{ positions: Float32Array, normals?: Float32Array }>,
 }
 
 // render bind group information
@@ -76,6 +349,9 @@ export interface RenderPipeline {
   pipe: GPURenderPipeline,
   objects: Array<RenderObject>,
   maxObjCount: number,
+  maxJoints?: number,
+  vertexColors?: boolean,
+  tangents?: boolean,
   bindGroup0: RenderBindGroup,
   bindGroup1?: RenderBindGroup,
   bindGroup2?: RenderBindGroup,
@@ -87,7 +363,52 @@ export interface Shape {
   vertices: Array<[number, number, number]>,
   uvs: Array<[number, number]>,
   normals: Array<[number, number, number]>,
-  index?: Array<number>
+  index?: Array<number>,
+  // xyz tangent with bitangent sign in w
+  tangents?: Array<[number, number, number, number]>,
+}
+
+/**
+ * options for generating normals
+ *
+ * @param {string} mode flat or smooth (angle-weighted) normals, default smooth
+ * @param {number} creaseAngle max angle in degrees between smoothed faces, default 180
+ * @param {Array<number>} smoothingGroups smoothing group per triangle, faces are only smoothed within the same group (0 is unsmoothed)
+ */
+export interface NormalOptions {
+  mode?: 'flat' | 'smooth',
+  creaseAngle?: number,
+  smoothingGroups?: Array<number>,
+}
+
+/**
+ * options for simplifying meshes
+ *
+ * @param {number} ratio target fraction of triangles to keep, default 0.5
+ * @param {number} targetCount target triangle count (overrides ratio)
+ * @param {number} maxError skip collapses leaving removed vertices further than this distance from the surface
+ * @param {boolean} lockBorders prevent open borders from collapsing
+ */
+export interface SimplifyOptions {
+  ratio?: number,
+  targetCount?: number,
+  maxError?: number,
+  lockBorders?: boolean,
+}
+
+// height samples for terrain, compatible with ImageData (rgba, height from red channel)
+export interface Heightmap {
+  width: number,
+  height: number,
+  data: ArrayLike<number>,
+}
+
+// axis-aligned bounding box and bounding sphere of vertices
+export interface Bounds {
+  min: [number, number, number],
+  max: [number, number, number],
+  center: [number, number, number],
+  radius: number,
 }
 
 // primitives shape info as ArrayBuffers
@@ -98,6 +419,35 @@ export interface BufferShape {
   normals: ArrayBuffer,
   index?: ArrayBuffer,
   indexCount?: number,
+  indexType?: 'uint16' | 'uint32',
+  // float32x4 per vertex, with bitangent sign in w
+  tangents?: ArrayBuffer,
+}
+
+// ply model info as ArrayBuffers, with vertex colors as float32x4 (if present)
+export interface PlyShape extends BufferShape {
+  colors?: ArrayBuffer,
+  topology: 'triangle-list' | 'point-list',
+}
+
+// gltf mesh primitive info as ArrayBuffers
+export interface GltfPrimitiveShape extends BufferShape {
+  material?: number,
+  topology: 'triangle-list' | 'line-list' | 'point-list',
+  // JOINTS_0 as uint32x4 and WEIGHTS_0 as float32x4
+  joints?: ArrayBuffer,
+  weights?: ArrayBuffer,
+  morphTargets?: Array<MorphTarget>,
+  // default morph weights from mesh
+  morphWeights?: Array<number>,
+  // bounds of POSITION accessor
+  bounds?: Bounds,
+}
+
+// morph target position/normal deltas (float32x3 per vertex)
+export interface MorphTarget {
+  positions: ArrayBuffer,
+  normals?: ArrayBuffer,
 }
 
 /**
@@ -118,7 +468,10 @@ export interface BufferShape {
  * @param {number} rotateDeg
  * @param {[number, number, number]} scale
  * @param {boolean} visible whether or not to render the object
+ * @param {Float32Array} transform additional model matrix, applied before translate/rotate/scale
  * @param {Camera} camera camera object to determine view transform
+ * @param {Float32Array} jointMatrices joint matrices for skinned pipelines (16 floats per joint)
+ * @param {Array<number>} morphWeights weights for morph targets added via addObjectMorphTargets
  * @param {Array<Float32Array | Int32Array | null>} uniformData custom uniform data can be passed in here
  */
 export interface UpdateData {
@@ -129,7 +482,10 @@ export interface UpdateData {
   rotateDeg?: number,
   scale?: [number, number, number],
   visible?: boolean,
+  transform?: Float32Array,
   camera?: Camera,
+  jointMatrices?: Float32Array,
+  morphWeights?: Array<number>,
   uniformData?: Array<Float32Array | Int32Array | null>
 }
 
@@ -158,6 +514,11 @@ export interface PipelineOptions {
   texture1Id?: number,
   texture2Id?: number,
   cullMode?: 'back' | 'front' | 'none',
+  topology?: 'triangle-list' | 'line-list' | 'point-list',
+  skinned?: boolean,
+  maxJoints?: number,
+  vertexColors?: boolean,
+  tangents?: boolean,
   uniforms?: Array<UniformDescription>,
   vertexFunction?: string,
   fragmentFunction?: string,
@@ -190,4 +551,4 @@ export interface CameraOptions {
 }
 export type Camera = CameraTransform & (OrthoCamera | PerspCamera);
 
-export { Primitives, Mat4, Vec, Renderer, ModelLoader };
\ No newline at end of file
+export { Primitives, Mat4, Vec, Renderer, ModelLoader, ModelExporter, Animation, MeshUtils };
\ No newline at end of file
@@ -107,6 +107,27 @@ class Mat4 {
 
     return dst;
   }
+  // create rotation matrix from quaternion
+  static rotateQuat(q: [number, number, number, number]): Float32Array {
+    const [x, y, z, w] = q;
+    const xx = x * x, yy = y * y, zz = z * z;
+    const xy = x * y, xz = x * z, yz = y * z;
+    const wx = w * x, wy = w * y, wz = w * z;
+    return new Float32Array([
+      1 - 2 * (yy + zz), 2 * (xy + wz), 2 * (xz - wy), 0,
+      2 * (xy - wz), 1 - 2 * (xx + zz), 2 * (yz + wx), 0,
+      2 * (xz + wy), 2 * (yz - wx), 1 - 2 * (xx + yy), 0,
+      0, 0, 0, 1,
+    ]);
+  }
+  // create transform matrix from translation, quaternion rotation and scale
+  static compose(
+    t: [number, number, number],
+    r: [number, number, number, number],
+    s: [number, number, number]
+  ): Float32Array {
+    return this.multiply(this.translate(t[0], t[1], t[2]), this.multiply(this.rotateQuat(r), this.scale(s[0], s[1], s[2])));
+  }
   // create scale matrix
   static scale(x: number, y: number, z: number): Float32Array {
     return new Float32Array([
@@ -180,6 +201,30 @@ class Mat4 {
     }
     return dst;
   }
+  // inverse transpose of upper 3x3 matrix, for transforming normals
+  static normalMatrix(src: Float32Array | Array<number>): Float32Array {
+    const m = src;
+    // cofactors of upper 3x3
+    const c00 = m[5] * m[10] - m[6] * m[9];
+    const c01 = m[6] * m[8] - m[4] * m[10];
+    const c02 = m[4] * m[9] - m[5] * m[8];
+    const c10 = m[9] * m[2] - m[10] * m[1];
+    const c11 = m[10] * m[0] - m[8] * m[2];
+    const c12 = m[8] * m[1] - m[9] * m[0];
+    const c20 = m[1] * m[6] - m[2] * m[5];
+    const c21 = m[2] * m[4] - m[0] * m[6];
+    const c22 = m[0] * m[5] - m[1] * m[4];
+    const det = m[0] * c00 + m[1] * c01 + m[2] * c02;
+    // singular matrices keep the cofactors (correct direction, but not scale)
+    const d = det === 0 ? 1 : 1 / det;
+
+    return new Float32Array([
+      c00 * d, c01 * d, c02 * d, 0,
+      c10 * d, c11 * d, c12 * d, 0,
+      c20 * d, c21 * d, c22 * d, 0,
+      0, 0, 0, 1,
+    ]);
+  }
   // camera rotation look at matrix
   static view_rot(cam: Float32Array, target: Float32Array, up: Float32Array): Float32Array {
     const fwd = Vec.normalize(Vec.subtract(cam, target));
@@ -0,0 +1,1395 @@
+import { Mat4 } from './index';
+import type { Shape, BufferShape, NormalOptions, SimplifyOptions, Bounds } from './index';
+
+/**
+ * Container for util functions for processing mesh data
+ *
+ * Functions accepting a Shape also have a BufferShape equivalent,
+ * and always return new data instead of modifying the input
+ */
+class MeshUtils {
+  /**
+   * Generate normals for shape
+   *
+   * - flat normals split shared vertices of indexed shapes where faces differ
+   * - smooth normals are angle-weighted and shared between faces at the same position,
+   * unless separated by the crease angle or a different smoothing group
+   *
+   * @param {Shape} shape
+   * @param {NormalOptions} options
+   * @returns {Shape} shape with generated normals
+   */
+  static computeNormals(shape: Shape, options?: NormalOptions): Shape {
+    const positions = new Float32Array(shape.vertices.length * 3);
+    shape.vertices.forEach((v, i) => positions.set(v, i * 3));
+    const triangles = shape.index ?? shape.vertices.map((_, i) => i);
+    const corners = this.cornerNormals(positions, triangles, options);
+    const { remap, normals, index } = this.splitByNormals(shape.vertices.length, triangles, corners);
+    // build output
+    const output: Shape = { vertices: [], uvs: [], normals: [] };
+    remap.forEach((src, i) => {
+      output.vertices.push(shape.vertices[src]);
+      output.uvs.push(shape.uvs[src] ?? [0, 0]);
+      output.normals.push([normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]]);
+    });
+    if (shape.index) output.index = index;
+    return output;
+  }
+  /**
+   * Generate normals for buffer shape (see computeNormals)
+   *
+   * @param {BufferShape} shape
+   * @param {NormalOptions} options
+   * @returns {BufferShape} shape with generated normals
+   */
+  static computeBufferNormals(shape: BufferShape, options?: NormalOptions): BufferShape {
+    const positions = new Float32Array(shape.vertices);
+    const uvs = new Float32Array(shape.uvs);
+    const triangles = this.readIndices(shape);
+    const corners = this.cornerNormals(positions, triangles, options);
+    const { remap, normals, index } = this.splitByNormals(shape.vertexCount, triangles, corners);
+    // build output
+    const outVerts = new Float32Array(remap.length * 3);
+    const outUvs = new Float32Array(remap.length * 2);
+    remap.forEach((src, i) => {
+      outVerts.set(positions.subarray(src * 3, src * 3 + 3), i * 3);
+      if (uvs.length >= src * 2 + 2) outUvs.set(uvs.subarray(src * 2, src * 2 + 2), i * 2);
+    });
+    const output: BufferShape = {
+      vertices: outVerts.buffer,
+      vertexCount: remap.length,
+      uvs: outUvs.buffer,
+      normals: normals.buffer,
+    };
+    if (shape.index && shape.indexCount) {
+      const indexMap = this.packIndices(index, remap.length);
+      output.index = indexMap.buffer;
+      output.indexCount = index.length;
+      output.indexType = indexMap instanceof Uint32Array ? 'uint32' : 'uint16';
+    }
+    return output;
+  }
+  /**
+   * Weld vertices with identical position/uv/normal into an indexed shape
+   *
+   * @param {Shape} shape
+   * @param {number} epsilon max difference between welded values (0 for exact matches)
+   * @returns {Shape} indexed shape
+   */
+  static weld(shape: Shape, epsilon: number = 0): Shape {
+    const count = shape.vertices.length;
+    const positions = new Float32Array(count * 3);
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    for (let i=0; i<count; i++) {
+      positions.set(shape.vertices[i], i * 3);
+      if (shape.uvs[i]) uvs.set(shape.uvs[i], i * 2);
+      if (shape.normals[i]) normals.set(shape.normals[i], i * 3);
+    }
+    const { remap, vertexIndex } = this.weldVertices(count, positions, uvs, normals, epsilon);
+    // build output
+    const output: Shape = { vertices: [], uvs: [], normals: [] };
+    remap.forEach(src => {
+      output.vertices.push(shape.vertices[src]);
+      output.uvs.push(shape.uvs[src] ?? [0, 0]);
+      output.normals.push(shape.normals[src] ?? [0, 0, 0]);
+    });
+    const triangles = shape.index ?? shape.vertices.map((_, i) => i);
+    output.index = triangles.map(v => vertexIndex[v]);
+    return output;
+  }
+  /**
+   * Weld vertices of buffer shape (see weld), using uint16 indices if possible
+   *
+   * @param {BufferShape} shape
+   * @param {number} epsilon max difference between welded values (0 for exact matches)
+   * @returns {BufferShape} indexed shape
+   */
+  static weldBuffer(shape: BufferShape, epsilon: number = 0): BufferShape {
+    const count = shape.vertexCount;
+    const positions = new Float32Array(shape.vertices, 0, count * 3);
+    // missing uvs/normals are treated as zeros
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    uvs.set(new Float32Array(shape.uvs, 0, Math.min(shape.uvs.byteLength >> 2, count * 2)));
+    normals.set(new Float32Array(shape.normals, 0, Math.min(shape.normals.byteLength >> 2, count * 3)));
+    const { remap, vertexIndex } = this.weldVertices(count, positions, uvs, normals, epsilon);
+    // build output
+    const outVerts = new Float32Array(remap.length * 3);
+    const outUvs = new Float32Array(remap.length * 2);
+    const outNormals = new Float32Array(remap.length * 3);
+    remap.forEach((src, i) => {
+      outVerts.set(positions.subarray(src * 3, src * 3 + 3), i * 3);
+      outUvs.set(uvs.subarray(src * 2, src * 2 + 2), i * 2);
+      outNormals.set(normals.subarray(src * 3, src * 3 + 3), i * 3);
+    });
+    const triangles = this.readIndices(shape);
+    const index = this.packIndices(Array.from(triangles, v => vertexIndex[v]), remap.length);
+    return {
+      vertices: outVerts.buffer,
+      vertexCount: remap.length,
+      uvs: outUvs.buffer,
+      normals: outNormals.buffer,
+      index: index.buffer,
+      indexCount: triangles.length,
+      indexType: index instanceof Uint32Array ? 'uint32' : 'uint16',
+    };
+  }
+  /**
+   * Compute axis-aligned bounding box and bounding sphere of vertices
+   *
+   * @param {Array<[number, number, number]> | ArrayBuffer | Float32Array} vertices
+   * @param {number} vertexCount number of vertices to read (defaults to all)
+   * @returns {Bounds} bounds
+   */
+  static computeBounds(
+    vertices: Array<[number, number, number]> | ArrayBuffer | Float32Array,
+    vertexCount?: number
+  ): Bounds {
+    let positions: ArrayLike<number>;
+    if (vertices instanceof ArrayBuffer) positions = new Float32Array(vertices);
+    else if (vertices instanceof Float32Array) positions = vertices;
+    else positions = vertices.flat();
+    const count = Math.min(vertexCount ?? Infinity, Math.floor(positions.length / 3));
+    if (count === 0) return { min: [0, 0, 0], max: [0, 0, 0], center: [0, 0, 0], radius: 0 };
+    // box
+    const min: [number, number, number] = [Infinity, Infinity, Infinity];
+    const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+    for (let i=0; i<count*3; i++) {
+      const c = i % 3;
+      if (positions[i] < min[c]) min[c] = positions[i];
+      if (positions[i] > max[c]) max[c] = positions[i];
+    }
+    // sphere around box center
+    const center: [number, number, number] = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+    let radiusSq = 0;
+    for (let i=0; i<count*3; i+=3) {
+      const dx = positions[i] - center[0], dy = positions[i + 1] - center[1], dz = positions[i + 2] - center[2];
+      radiusSq = Math.max(radiusSq, dx * dx + dy * dy + dz * dz);
+    }
+    return { min, max, center, radius: Math.sqrt(radiusSq) };
+  }
+  /**
+   * Transform bounds by matrix (i.e. model matrix)
+   *
+   * note: the output box contains the transformed box, but is not necessarily the tightest fit
+   *
+   * @param {Bounds} bounds
+   * @param {Float32Array} matrix column-major transform
+   * @returns {Bounds} transformed bounds
+   */
+  static transformBounds(bounds: Bounds, matrix: Float32Array): Bounds {
+    const m = matrix;
+    const point = (p: [number, number, number]): [number, number, number] => [
+      m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12],
+      m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13],
+      m[2] * p[0] + m[6] * p[1] + m[10] * p[2] + m[14],
+    ];
+    // transform box center and extents
+    const boxCenter = point([
+      (bounds.min[0] + bounds.max[0]) / 2,
+      (bounds.min[1] + bounds.max[1]) / 2,
+      (bounds.min[2] + bounds.max[2]) / 2,
+    ]);
+    const extent = [0, 1, 2].map(i => (bounds.max[i] - bounds.min[i]) / 2);
+    const min: [number, number, number] = [0, 0, 0];
+    const max: [number, number, number] = [0, 0, 0];
+    for (let r=0; r<3; r++) {
+      const e = Math.abs(m[r]) * extent[0] + Math.abs(m[4 + r]) * extent[1] + Math.abs(m[8 + r]) * extent[2];
+      min[r] = boxCenter[r] - e;
+      max[r] = boxCenter[r] + e;
+    }
+    // sphere radius is scaled by largest axis scale
+    const scale = Math.max(
+      Math.hypot(m[0], m[1], m[2]),
+      Math.hypot(m[4], m[5], m[6]),
+      Math.hypot(m[8], m[9], m[10]),
+    );
+    return { min, max, center: point(bounds.center), radius: bounds.radius * scale };
+  }
+  /**
+   * Generate MikkTSpace style tangents for normal mapping
+   *
+   * Tangents are angle-weighted and shared between corners with the same position, uv and normal,
+   * with the bitangent sign stored in w (bitangent = cross(normal, tangent) * w)
+   *
+   * note: existing tangents (i.e. from a gltf TANGENT attribute) are kept
+   *
+   * @param {Shape} shape
+   * @returns {Shape} shape with tangents
+   */
+  static computeTangents(shape: Shape): Shape {
+    const count = shape.vertices.length;
+    if (shape.tangents && shape.tangents.length >= count) return shape;
+    const positions = new Float32Array(count * 3);
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    for (let i=0; i<count; i++) {
+      positions.set(shape.vertices[i], i * 3);
+      if (shape.uvs[i]) uvs.set(shape.uvs[i], i * 2);
+      if (shape.normals[i]) normals.set(shape.normals[i], i * 3);
+    }
+    const triangles = shape.index ?? shape.vertices.map((_, i) => i);
+    const tangents = this.vertexTangents(count, positions, uvs, normals, triangles);
+    const output: Array<[number, number, number, number]> = [];
+    for (let i=0; i<count; i++) {
+      output.push([tangents[i * 4], tangents[i * 4 + 1], tangents[i * 4 + 2], tangents[i * 4 + 3]]);
+    }
+    return { ...shape, tangents: output };
+  }
+  /**
+   * Generate tangents for buffer shape (see computeTangents)
+   *
+   * @param {BufferShape} shape
+   * @returns {BufferShape} shape with tangents
+   */
+  static computeBufferTangents(shape: BufferShape): BufferShape {
+    const count = shape.vertexCount;
+    if (shape.tangents && shape.tangents.byteLength >= count * 16) return shape;
+    const positions = new Float32Array(shape.vertices, 0, count * 3);
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    uvs.set(new Float32Array(shape.uvs, 0, Math.min(shape.uvs.byteLength >> 2, count * 2)));
+    normals.set(new Float32Array(shape.normals, 0, Math.min(shape.normals.byteLength >> 2, count * 3)));
+    const triangles = this.readIndices(shape);
+    const tangents = this.vertexTangents(count, positions, uvs, normals, triangles);
+    return { ...shape, tangents: tangents.buffer };
+  }
+  /**
+   * Reduce triangle count of shape by collapsing edges with the lowest quadric error
+   *
+   * Vertices only move onto their neighbours, so uvs/normals are preserved,
+   * and uv/normal seams and open borders are only collapsed along themselves
+   * note: every hard edge is a normal seam, so flat shaded models barely simplify
+   *
+   * @param {Shape} shape
+   * @param {SimplifyOptions} options
+   * @returns {Shape} indexed shape with fewer triangles
+   */
+  static simplify(shape: Shape, options?: SimplifyOptions): Shape {
+    // work on welded vertices, so corners with identical attributes are shared
+    const welded = this.weld(shape);
+    const count = welded.vertices.length;
+    const positions = new Float32Array(count * 3);
+    for (let i=0; i<count; i++) positions.set(welded.vertices[i], i * 3);
+    const triangles = this.simplifyTriangles(count, positions, welded.index ?? [], options);
+    // remove unused vertices
+    const { remap, index } = this.compactVertices(triangles);
+    return {
+      vertices: remap.map(v => welded.vertices[v]),
+      uvs: remap.map(v => welded.uvs[v]),
+      normals: remap.map(v => welded.normals[v]),
+      index,
+    };
+  }
+  /**
+   * Reduce triangle count of buffer shape (see simplify)
+   *
+   * @param {BufferShape} shape
+   * @param {SimplifyOptions} options
+   * @returns {BufferShape} indexed shape with fewer triangles
+   */
+  static simplifyBuffer(shape: BufferShape, options?: SimplifyOptions): BufferShape {
+    const welded = this.weldBuffer(shape);
+    const count = welded.vertexCount;
+    const positions = new Float32Array(welded.vertices);
+    const uvs = new Float32Array(welded.uvs);
+    const normals = new Float32Array(welded.normals);
+    const triangles = this.simplifyTriangles(count, positions, this.readIndices(welded), options);
+    // remove unused vertices
+    const { remap, index } = this.compactVertices(triangles);
+    const outVerts = new Float32Array(remap.length * 3);
+    const outUvs = new Float32Array(remap.length * 2);
+    const outNormals = new Float32Array(remap.length * 3);
+    remap.forEach((src, i) => {
+      outVerts.set(positions.subarray(src * 3, src * 3 + 3), i * 3);
+      outUvs.set(uvs.subarray(src * 2, src * 2 + 2), i * 2);
+      outNormals.set(normals.subarray(src * 3, src * 3 + 3), i * 3);
+    });
+    const indexMap = this.packIndices(index, remap.length);
+    return {
+      vertices: outVerts.buffer,
+      vertexCount: remap.length,
+      uvs: outUvs.buffer,
+      normals: outNormals.buffer,
+      index: indexMap.buffer,
+      indexCount: index.length,
+      indexType: indexMap instanceof Uint32Array ? 'uint32' : 'uint16',
+    };
+  }
+  /**
+   * Generate chain of simplified meshes for level of detail rendering
+   *
+   * Each level is simplified from the previous one, and the chain stops early
+   * if a level can't be reduced any further (i.e. when limited by maxError)
+   *
+   * @param {BufferShape} shape source model (level 0)
+   * @param {Array<number>} ratios triangle ratio of each level, relative to the source model
+   * @param {SimplifyOptions} options ratio/targetCount are ignored
+   * @returns {Array<BufferShape>} levels, starting with the source model
+   */
+  static generateLods(
+    shape: BufferShape,
+    ratios: Array<number> = [0.5, 0.25, 0.125],
+    options?: SimplifyOptions
+  ): Array<BufferShape> {
+    const sourceCount = Math.floor((shape.indexCount ?? shape.vertexCount) / 3);
+    const output: Array<BufferShape> = [shape];
+    let previousCount = sourceCount;
+    for (const ratio of ratios) {
+      const targetCount = Math.floor(sourceCount * ratio);
+      if (targetCount >= previousCount) continue;
+      const level = this.simplifyBuffer(output[output.length - 1], { ...options, targetCount });
+      const levelCount = Math.floor((level.indexCount ?? 0) / 3);
+      if (levelCount >= previousCount || levelCount === 0) break;
+      output.push(level);
+      previousCount = levelCount;
+    }
+    return output;
+  }
+  /**
+   * Bake transform into shape vertices, with normals/tangents transformed by its normal matrix
+   *
+   * note: transforms with negative scale (mirroring) also reverse triangle winding,
+   * so front faces stay front facing
+   *
+   * @param {Shape} shape
+   * @param {Float32Array | Array<number>} matrix column-major transform
+   * @returns {Shape} transformed shape
+   */
+  static transform(shape: Shape, matrix: Float32Array | Array<number>): Shape {
+    const count = shape.vertices.length;
+    const positions = new Float32Array(count * 3);
+    const normals = new Float32Array(count * 3);
+    for (let i=0; i<count; i++) {
+      positions.set(shape.vertices[i], i * 3);
+      if (shape.normals[i]) normals.set(shape.normals[i], i * 3);
+    }
+    let tangents: Float32Array | undefined;
+    if (shape.tangents && shape.tangents.length >= count) {
+      tangents = new Float32Array(count * 4);
+      for (let i=0; i<count; i++) tangents.set(shape.tangents[i], i * 4);
+    }
+    const mirrored = this.transformVertices(matrix, positions, normals, tangents);
+    const output: Shape = { vertices: [], uvs: [], normals: [] };
+    if (tangents) output.tangents = [];
+    // unindexed triangles are reversed by swapping their last 2 vertices
+    const source = (i: number): number => {
+      if (!mirrored || shape.index || i >= count - count % 3) return i;
+      return i % 3 === 1 ? i + 1 : i % 3 === 2 ? i - 1 : i;
+    };
+    for (let i=0; i<count; i++) {
+      const v = source(i);
+      output.vertices.push([positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]]);
+      output.uvs.push(shape.uvs[v] ?? [0, 0]);
+      output.normals.push([normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]]);
+      if (tangents) output.tangents?.push([tangents[v * 4], tangents[v * 4 + 1], tangents[v * 4 + 2], tangents[v * 4 + 3]]);
+    }
+    if (shape.index) {
+      const index = shape.index.slice();
+      if (mirrored) {
+        for (let i=0; i+2<index.length; i+=3) [index[i + 1], index[i + 2]] = [index[i + 2], index[i + 1]];
+      }
+      output.index = index;
+    }
+    return output;
+  }
+  /**
+   * Bake transform into buffer shape (see transform)
+   *
+   * note: only the BufferShape fields are kept, extra data of subtypes
+   * (i.e. bounds, morph targets or skinning) is dropped as it would be stale
+   *
+   * @param {BufferShape} shape
+   * @param {Float32Array | Array<number>} matrix column-major transform
+   * @returns {BufferShape} transformed shape
+   */
+  static transformBuffer(shape: BufferShape, matrix: Float32Array | Array<number>): BufferShape {
+    const count = shape.vertexCount;
+    const positions = new Float32Array(shape.vertices.slice(0, count * 12));
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    uvs.set(new Float32Array(shape.uvs, 0, Math.min(shape.uvs.byteLength >> 2, count * 2)));
+    normals.set(new Float32Array(shape.normals, 0, Math.min(shape.normals.byteLength >> 2, count * 3)));
+    const tangents = shape.tangents && shape.tangents.byteLength >= count * 16
+      ? new Float32Array(shape.tangents.slice(0, count * 16))
+      : undefined;
+    const mirrored = this.transformVertices(matrix, positions, normals, tangents);
+    const output: BufferShape = { vertices: positions.buffer, vertexCount: count, uvs: uvs.buffer, normals: normals.buffer };
+    if (tangents) output.tangents = tangents.buffer;
+    if (shape.index && shape.indexCount) {
+      output.index = shape.index;
+      output.indexCount = shape.indexCount;
+      output.indexType = shape.indexType;
+    }
+    if (!mirrored) return output;
+    // reverse winding by swapping the last 2 vertices of each triangle
+    if (shape.index && shape.indexCount) {
+      const index = this.packIndices(this.readIndices(shape), count);
+      for (let i=0; i+2<shape.indexCount; i+=3) [index[i + 1], index[i + 2]] = [index[i + 2], index[i + 1]];
+      output.index = index.buffer;
+      output.indexType = index instanceof Uint32Array ? 'uint32' : 'uint16';
+      return output;
+    }
+    const swap = (values: Float32Array | undefined, size: number) => {
+      if (!values) return;
+      for (let i=0; i+2<count; i+=3) {
+        const b = values.slice((i + 1) * size, (i + 2) * size);
+        values.copyWithin((i + 1) * size, (i + 2) * size, (i + 3) * size);
+        values.set(b, (i + 2) * size);
+      }
+    };
+    swap(positions, 3);
+    swap(uvs, 2);
+    swap(normals, 3);
+    swap(tangents, 4);
+    return output;
+  }
+  /**
+   * Merge shapes into a single indexed shape, i.e. to draw static geometry with one render object
+   *
+   * Shapes can be positioned beforehand with transform, i.e.
+   * ```js
+   * const merged = MeshUtils.merge([
+   *   MeshUtils.transform(Primitives.cube(1, 1, 1), Mat4.translate(-2, 0, 0)),
+   *   MeshUtils.transform(Primitives.sphere(1, 16, 8), Mat4.translate(2, 0, 0)),
+   * ]);
+   * ```
+   *
+   * note: tangents are only kept if every shape has them
+   *
+   * @param {Array<Shape>} shapes
+   * @returns {Shape} merged indexed shape
+   */
+  static merge(shapes: Array<Shape>): Shape {
+    const keepTangents = shapes.length > 0 && shapes.every(s => s.tangents && s.tangents.length >= s.vertices.length);
+    const output: Shape = { vertices: [], uvs: [], normals: [] };
+    const index: Array<number> = [];
+    const tangents: Array<[number, number, number, number]> = [];
+    shapes.forEach(shape => {
+      const offset = output.vertices.length;
+      shape.vertices.forEach((v, i) => {
+        output.vertices.push(v);
+        output.uvs.push(shape.uvs[i] ?? [0, 0]);
+        output.normals.push(shape.normals[i] ?? [0, 0, 0]);
+        if (keepTangents && shape.tangents) tangents.push(shape.tangents[i]);
+      });
+      const triangles = shape.index ?? shape.vertices.map((_, i) => i);
+      triangles.forEach(v => index.push(v + offset));
+    });
+    output.index = index;
+    if (keepTangents) output.tangents = tangents;
+    return output;
+  }
+  /**
+   * Merge buffer shapes into a single indexed buffer shape (see merge), using uint16 indices if possible
+   *
+   * @param {Array<BufferShape>} shapes
+   * @returns {BufferShape} merged indexed shape
+   */
+  static mergeBuffers(shapes: Array<BufferShape>): BufferShape {
+    const keepTangents = shapes.length > 0 && shapes.every(s => s.tangents && s.tangents.byteLength >= s.vertexCount * 16);
+    const vertexCount = shapes.reduce((total, s) => total + s.vertexCount, 0);
+    const positions = new Float32Array(vertexCount * 3);
+    const uvs = new Float32Array(vertexCount * 2);
+    const normals = new Float32Array(vertexCount * 3);
+    const tangents = keepTangents ? new Float32Array(vertexCount * 4) : undefined;
+    const index: Array<number> = [];
+    let offset = 0;
+    shapes.forEach(shape => {
+      const count = shape.vertexCount;
+      positions.set(new Float32Array(shape.vertices, 0, count * 3), offset * 3);
+      uvs.set(new Float32Array(shape.uvs, 0, Math.min(shape.uvs.byteLength >> 2, count * 2)), offset * 2);
+      normals.set(new Float32Array(shape.normals, 0, Math.min(shape.normals.byteLength >> 2, count * 3)), offset * 3);
+      if (tangents && shape.tangents) tangents.set(new Float32Array(shape.tangents, 0, count * 4), offset * 4);
+      const triangles = this.readIndices(shape);
+      for (let i=0; i<triangles.length; i++) index.push(triangles[i] + offset);
+      offset += count;
+    });
+    const indexMap = this.packIndices(index, vertexCount);
+    const output: BufferShape = {
+      vertices: positions.buffer,
+      vertexCount,
+      uvs: uvs.buffer,
+      normals: normals.buffer,
+      index: indexMap.buffer,
+      indexCount: index.length,
+      indexType: indexMap instanceof Uint32Array ? 'uint32' : 'uint16',
+    };
+    if (tangents) output.tangents = tangents.buffer;
+    return output;
+  }
+  /**
+   * Smooth shape with loop subdivision, splitting every triangle into 4 per iteration
+   *
+   * Vertices at the same position are smoothed together, so uv seams stay closed,
+   * and open borders are smoothed along themselves. Uvs are interpolated linearly,
+   * and normals are regenerated from the smoothed surface (keeping hard edges)
+   *
+   * @param {Shape} shape
+   * @param {number} iterations
+   * @returns {Shape} subdivided indexed shape
+   */
+  static subdivide(shape: Shape, iterations: number = 1): Shape {
+    const count = shape.vertices.length;
+    const positions = new Float32Array(count * 3);
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    for (let i=0; i<count; i++) {
+      positions.set(shape.vertices[i], i * 3);
+      if (shape.uvs[i]) uvs.set(shape.uvs[i], i * 2);
+      if (shape.normals[i]) normals.set(shape.normals[i], i * 3);
+    }
+    const triangles = shape.index ?? shape.vertices.map((_, i) => i);
+    const result = this.subdivideVertices(positions, uvs, normals, triangles, iterations);
+    const output: Shape = { vertices: [], uvs: [], normals: [], index: result.index };
+    for (let i=0; i<result.positions.length/3; i++) {
+      output.vertices.push([result.positions[i * 3], result.positions[i * 3 + 1], result.positions[i * 3 + 2]]);
+      output.uvs.push([result.uvs[i * 2], result.uvs[i * 2 + 1]]);
+      output.normals.push([result.normals[i * 3], result.normals[i * 3 + 1], result.normals[i * 3 + 2]]);
+    }
+    return output;
+  }
+  /**
+   * Smooth buffer shape with loop subdivision (see subdivide), using uint16 indices if possible
+   *
+   * @param {BufferShape} shape
+   * @param {number} iterations
+   * @returns {BufferShape} subdivided indexed shape
+   */
+  static subdivideBuffer(shape: BufferShape, iterations: number = 1): BufferShape {
+    const count = shape.vertexCount;
+    const positions = new Float32Array(shape.vertices, 0, count * 3);
+    const uvs = new Float32Array(count * 2);
+    const normals = new Float32Array(count * 3);
+    uvs.set(new Float32Array(shape.uvs, 0, Math.min(shape.uvs.byteLength >> 2, count * 2)));
+    normals.set(new Float32Array(shape.normals, 0, Math.min(shape.normals.byteLength >> 2, count * 3)));
+    const triangles = this.readIndices(shape);
+    const result = this.subdivideVertices(positions, uvs, normals, triangles, iterations);
+    const vertexCount = result.positions.length / 3;
+    const index = this.packIndices(result.index, vertexCount);
+    return {
+      vertices: result.positions.buffer,
+      vertexCount,
+      uvs: result.uvs.buffer,
+      normals: result.normals.buffer,
+      index: index.buffer,
+      indexCount: result.index.length,
+      indexType: index instanceof Uint32Array ? 'uint32' : 'uint16',
+    };
+  }
+  /**
+   * Index format for vertex count, using uint16 while every index fits below 0xffff
+   * (0xffff is kept free, as it is the primitive restart value of strip topologies)
+   *
+   * @param {number} vertexCount number of vertices referenced by index
+   * @returns {GPUIndexFormat} uint16 or uint32
+   */
+  static indexFormat(vertexCount: number): 'uint16' | 'uint32' {
+    return vertexCount > 65535 ? 'uint32' : 'uint16';
+  }
+  /**
+   * Pack index into an index buffer array, in the format given by indexFormat
+   *
+   * note: uint16 arrays are padded with a trailing 0 to a multiple of 4 bytes
+   *
+   * @param {ArrayLike<number>} index
+   * @param {number} vertexCount number of vertices referenced by index
+   * @returns {Uint16Array | Uint32Array} packed index
+   */
+  static packIndices(index: ArrayLike<number>, vertexCount: number): Uint16Array | Uint32Array {
+    if (this.indexFormat(vertexCount) === 'uint32') return Uint32Array.from(index);
+    // index buffer size must be a multiple of 4 bytes
+    const output = new Uint16Array(Math.ceil(index.length / 2) * 2);
+    output.set(index);
+    return output;
+  }
+  // loop subdivision of flat vertex arrays
+  private static subdivideVertices(
+    positions: Float32Array,
+    uvs: Float32Array,
+    normals: Float32Array,
+    triangles: ArrayLike<number>,
+    iterations: number
+  ): { positions: Float32Array, uvs: Float32Array, normals: Float32Array, index: Array<number> } {
+    let pos = positions, uv = uvs, norm = normals;
+    let tris = Array.from(triangles).slice(0, Math.floor(triangles.length / 3) * 3);
+    for (let iteration=0; iteration<iterations; iteration++) {
+      const count = pos.length / 3;
+      // vertices sharing a position are smoothed together
+      const { pidOf, pidSource } = this.groupPositions(pos, count);
+      const pCount = pidSource.length;
+      // position edges, with the opposite corner of each triangle
+      const edgeKey = (a: number, b: number): number => a < b ? a * pCount + b : b * pCount + a;
+      const edges: Map<number, Array<number>> = new Map();
+      for (let t=0; t<tris.length; t+=3) {
+        for (let k=0; k<3; k++) {
+          const a = pidOf[tris[t + k]], b = pidOf[tris[t + (k + 1) % 3]], c = pidOf[tris[t + (k + 2) % 3]];
+          if (a === b) continue;
+          const key = edgeKey(a, b);
+          const list = edges.get(key);
+          if (list) list.push(c);
+          else edges.set(key, [c]);
+        }
+      }
+      const neighbours: Array<Set<number>> = Array.from({ length: pCount }, () => new Set());
+      const borderNeighbours: Array<Array<number>> = Array.from({ length: pCount }, () => []);
+      edges.forEach((opposite, key) => {
+        const a = Math.floor(key / pCount), b = key % pCount;
+        neighbours[a].add(b);
+        neighbours[b].add(a);
+        if (opposite.length !== 2) {
+          borderNeighbours[a].push(b);
+          borderNeighbours[b].push(a);
+        }
+      });
+      const point = (pid: number, i: number): number => pos[pidSource[pid] * 3 + i];
+      // smoothed positions of existing vertices
+      const smoothed = new Float32Array(pCount * 3);
+      for (let p=0; p<pCount; p++) {
+        const border = borderNeighbours[p];
+        for (let i=0; i<3; i++) {
+          if (border.length === 2) {
+            smoothed[p * 3 + i] = point(p, i) * 3 / 4 + (point(border[0], i) + point(border[1], i)) / 8;
+          } else if (border.length > 0 || neighbours[p].size < 3) {
+            // corners and non-manifold vertices stay in place
+            smoothed[p * 3 + i] = point(p, i);
+          } else {
+            const n = neighbours[p].size;
+            const beta = n === 3 ? 3 / 16 : 3 / (8 * n);
+            let sum = 0;
+            neighbours[p].forEach(q => sum += point(q, i));
+            smoothed[p * 3 + i] = point(p, i) * (1 - n * beta) + sum * beta;
+          }
+        }
+      }
+      // new vertices on every attribute edge
+      const newPos: Array<number> = [];
+      const newUv: Array<number> = [];
+      const newNorm: Array<number> = [];
+      for (let v=0; v<count; v++) {
+        const p = pidOf[v];
+        newPos.push(smoothed[p * 3], smoothed[p * 3 + 1], smoothed[p * 3 + 2]);
+        newUv.push(uv[v * 2], uv[v * 2 + 1]);
+        newNorm.push(norm[v * 3], norm[v * 3 + 1], norm[v * 3 + 2]);
+      }
+      const midpoints: Map<number, number> = new Map();
+      const midpoint = (a: number, b: number): number => {
+        const key = a < b ? a * count + b : b * count + a;
+        const cached = midpoints.get(key);
+        if (cached !== undefined) return cached;
+        const pa = pidOf[a], pb = pidOf[b];
+        const opposite = edges.get(edgeKey(pa, pb)) ?? [];
+        for (let i=0; i<3; i++) {
+          if (opposite.length === 2) {
+            newPos.push((point(pa, i) + point(pb, i)) * 3 / 8 + (point(opposite[0], i) + point(opposite[1], i)) / 8);
+          } else {
+            newPos.push((point(pa, i) + point(pb, i)) / 2);
+          }
+        }
+        newUv.push((uv[a * 2] + uv[b * 2]) / 2, (uv[a * 2 + 1] + uv[b * 2 + 1]) / 2);
+        const n = [norm[a * 3] + norm[b * 3], norm[a * 3 + 1] + norm[b * 3 + 1], norm[a * 3 + 2] + norm[b * 3 + 2]];
+        const m = Math.hypot(n[0], n[1], n[2]) || 1;
+        newNorm.push(n[0] / m, n[1] / m, n[2] / m);
+        const id = newUv.length / 2 - 1;
+        midpoints.set(key, id);
+        return id;
+      };
+      // split triangles into 4
+      const newTris: Array<number> = [];
+      for (let t=0; t<tris.length; t+=3) {
+        const [a, b, c] = [tris[t], tris[t + 1], tris[t + 2]];
+        const ab = midpoint(a, b), bc = midpoint(b, c), ca = midpoint(c, a);
+        newTris.push(a, ab, ca, ab, b, bc, ca, bc, c, ab, bc, ca);
+      }
+      pos = new Float32Array(newPos);
+      uv = new Float32Array(newUv);
+      norm = new Float32Array(newNorm);
+      tris = newTris;
+    }
+    // regenerate normals, shared between vertices at the same position with similar source normals
+    const count = pos.length / 3;
+    const keys: Array<string> = [];
+    const sums: Map<string, Array<number>> = new Map();
+    for (let v=0; v<count; v++) {
+      const m = Math.hypot(norm[v * 3], norm[v * 3 + 1], norm[v * 3 + 2]) || 1;
+      const n = [0, 1, 2].map(i => Math.round(norm[v * 3 + i] / m * 100));
+      keys.push(`${pos[v * 3]},${pos[v * 3 + 1]},${pos[v * 3 + 2]}|${n.join(",")}`);
+    }
+    for (let t=0; t<tris.length; t+=3) {
+      const p = [0, 1, 2].map(k => [pos[tris[t + k] * 3], pos[tris[t + k] * 3 + 1], pos[tris[t + k] * 3 + 2]]);
+      const e1 = [p[1][0] - p[0][0], p[1][1] - p[0][1], p[1][2] - p[0][2]];
+      const e2 = [p[2][0] - p[0][0], p[2][1] - p[0][1], p[2][2] - p[0][2]];
+      const n = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+      const m = Math.hypot(n[0], n[1], n[2]);
+      if (m <= 0) continue;
+      // angle-weighted face normal at each corner
+      for (let k=0; k<3; k++) {
+        const o = p[k], a = p[(k + 1) % 3], b = p[(k + 2) % 3];
+        const u = [a[0] - o[0], a[1] - o[1], a[2] - o[2]];
+        const w = [b[0] - o[0], b[1] - o[1], b[2] - o[2]];
+        const cos = (u[0] * w[0] + u[1] * w[1] + u[2] * w[2]) / ((Math.hypot(u[0], u[1], u[2]) * Math.hypot(w[0], w[1], w[2])) || 1);
+        const angle = Math.acos(Math.min(Math.max(cos, -1), 1));
+        const key = keys[tris[t + k]];
+        const sum = sums.get(key) ?? [0, 0, 0];
+        for (let i=0; i<3; i++) sum[i] += n[i] / m * angle;
+        sums.set(key, sum);
+      }
+    }
+    const outNormals = new Float32Array(count * 3);
+    for (let v=0; v<count; v++) {
+      const sum = sums.get(keys[v]) ?? [0, 0, 0];
+      const m = Math.hypot(sum[0], sum[1], sum[2]);
+      if (m > 0) outNormals.set([sum[0] / m, sum[1] / m, sum[2] / m], v * 3);
+    }
+    return { positions: pos, uvs: uv, normals: outNormals, index: tris };
+  }
+  // apply transform to flat vertex arrays in place, returning whether the transform mirrors geometry
+  private static transformVertices(
+    matrix: Float32Array | Array<number>,
+    positions: Float32Array,
+    normals: Float32Array,
+    tangents?: Float32Array
+  ): boolean {
+    const m = matrix;
+    if (m.length !== 16) throw new Error("Invalid transform matrix");
+    const n = Mat4.normalMatrix(m);
+    for (let i=0; i<positions.length; i+=3) {
+      const [x, y, z] = [positions[i], positions[i + 1], positions[i + 2]];
+      positions[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+      positions[i + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+      positions[i + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+    }
+    for (let i=0; i<normals.length; i+=3) {
+      const [x, y, z] = [normals[i], normals[i + 1], normals[i + 2]];
+      const nx = n[0] * x + n[4] * y + n[8] * z;
+      const ny = n[1] * x + n[5] * y + n[9] * z;
+      const nz = n[2] * x + n[6] * y + n[10] * z;
+      const l = Math.hypot(nx, ny, nz) || 1;
+      normals.set([nx / l, ny / l, nz / l], i);
+    }
+    const det = m[0] * (m[5] * m[10] - m[6] * m[9])
+      + m[1] * (m[6] * m[8] - m[4] * m[10])
+      + m[2] * (m[4] * m[9] - m[5] * m[8]);
+    if (tangents) {
+      // tangents follow the surface, and mirroring flips the bitangent
+      for (let i=0; i<tangents.length; i+=4) {
+        const [x, y, z] = [tangents[i], tangents[i + 1], tangents[i + 2]];
+        const tx = m[0] * x + m[4] * y + m[8] * z;
+        const ty = m[1] * x + m[5] * y + m[9] * z;
+        const tz = m[2] * x + m[6] * y + m[10] * z;
+        const l = Math.hypot(tx, ty, tz) || 1;
+        tangents.set([tx / l, ty / l, tz / l, det < 0 ? -tangents[i + 3] : tangents[i + 3]], i);
+      }
+    }
+    return det < 0;
+  }
+  // compute tangent per vertex (4 floats per vertex)
+  private static vertexTangents(
+    count: number,
+    positions: Float32Array,
+    uvs: Float32Array,
+    normals: Float32Array,
+    triangles: ArrayLike<number>
+  ): Float32Array {
+    // vertices with the same position/uv/normal share a tangent
+    const groupOf = new Uint32Array(count);
+    const keys: Map<string, number> = new Map();
+    for (let v=0; v<count; v++) {
+      const key = [
+        positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2],
+        uvs[v * 2], uvs[v * 2 + 1],
+        normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2],
+      ].join(",");
+      let group = keys.get(key);
+      if (group === undefined) {
+        group = keys.size;
+        keys.set(key, group);
+      }
+      groupOf[v] = group;
+    }
+    const tan = new Float32Array(keys.size * 3);
+    const bit = new Float32Array(keys.size * 3);
+    const sub = (a: number, b: number): [number, number, number] => [
+      positions[a * 3] - positions[b * 3],
+      positions[a * 3 + 1] - positions[b * 3 + 1],
+      positions[a * 3 + 2] - positions[b * 3 + 2],
+    ];
+    // project direction onto tangent plane of vertex and normalize
+    const project = (d: Array<number>, v: number): Array<number> => {
+      const n = [normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]];
+      const dot = d[0] * n[0] + d[1] * n[1] + d[2] * n[2];
+      const p = [d[0] - n[0] * dot, d[1] - n[1] * dot, d[2] - n[2] * dot];
+      const m = Math.hypot(p[0], p[1], p[2]);
+      return m > 0 ? [p[0] / m, p[1] / m, p[2] / m] : [0, 0, 0];
+    };
+
+    // accumulate uv directions of each triangle
+    for (let t=0; t+2<triangles.length; t+=3) {
+      const v = [triangles[t], triangles[t + 1], triangles[t + 2]];
+      const e1 = sub(v[1], v[0]), e2 = sub(v[2], v[0]);
+      const du1 = uvs[v[1] * 2] - uvs[v[0] * 2], dv1 = uvs[v[1] * 2 + 1] - uvs[v[0] * 2 + 1];
+      const du2 = uvs[v[2] * 2] - uvs[v[0] * 2], dv2 = uvs[v[2] * 2 + 1] - uvs[v[0] * 2 + 1];
+      const r = du1 * dv2 - du2 * dv1;
+      // skip triangles with degenerate uvs
+      if (Math.abs(r) < 1e-12) continue;
+      const sdir = [0, 1, 2].map(i => (e1[i] * dv2 - e2[i] * dv1) / r);
+      const tdir = [0, 1, 2].map(i => (e2[i] * du1 - e1[i] * du2) / r);
+      for (let k=0; k<3; k++) {
+        // weight by corner angle
+        const a = sub(v[(k + 1) % 3], v[k]), b = sub(v[(k + 2) % 3], v[k]);
+        const la = Math.hypot(a[0], a[1], a[2]), lb = Math.hypot(b[0], b[1], b[2]);
+        if (la <= 0 || lb <= 0) continue;
+        const cos = (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / (la * lb);
+        const angle = Math.acos(Math.min(Math.max(cos, -1), 1));
+        const s = project(sdir, v[k]), tb = project(tdir, v[k]);
+        const g = groupOf[v[k]];
+        for (let i=0; i<3; i++) {
+          tan[g * 3 + i] += s[i] * angle;
+          bit[g * 3 + i] += tb[i] * angle;
+        }
+      }
+    }
+
+    // orthonormalize against normal and find handedness
+    const output = new Float32Array(count * 4);
+    for (let v=0; v<count; v++) {
+      const g = groupOf[v];
+      const n = [normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]];
+      let t = project([tan[g * 3], tan[g * 3 + 1], tan[g * 3 + 2]], v);
+      if (t[0] === 0 && t[1] === 0 && t[2] === 0) {
+        // no uv direction, use any vector perpendicular to normal
+        t = project(Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0], v);
+        if (t[0] === 0 && t[1] === 0 && t[2] === 0) t = [1, 0, 0];
+      }
+      const c = [n[1] * t[2] - n[2] * t[1], n[2] * t[0] - n[0] * t[2], n[0] * t[1] - n[1] * t[0]];
+      const w = c[0] * bit[g * 3] + c[1] * bit[g * 3 + 1] + c[2] * bit[g * 3 + 2] < 0 ? -1 : 1;
+      output.set([t[0], t[1], t[2], w], v * 4);
+    }
+    return output;
+  }
+  // collapse edges of indexed triangles by quadric error, returning remaining triangles
+  private static simplifyTriangles(
+    vertexCount: number,
+    positions: Float32Array,
+    triangles: ArrayLike<number>,
+    options?: SimplifyOptions
+  ): Array<number> {
+    const triCount = Math.floor(triangles.length / 3);
+    const target = options?.targetCount ?? Math.floor(triCount * (options?.ratio ?? 0.5));
+    const maxError = options?.maxError ?? Infinity;
+
+    // vertices sharing a position are collapsed together
+    const { pidOf, pidSource } = this.groupPositions(positions, vertexCount);
+    const pCount = pidSource.length;
+    const pos = (pid: number): Array<number> => {
+      const v = pidSource[pid];
+      return [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+    };
+    const tris = Array.from(triangles).slice(0, triCount * 3);
+    const triAlive = new Uint8Array(triCount);
+    const vertTris: Array<Array<number>> = Array.from({ length: pCount }, () => []);
+    let aliveCount = 0;
+    for (let t=0; t<triCount; t++) {
+      const [a, b, c] = [pidOf[tris[t * 3]], pidOf[tris[t * 3 + 1]], pidOf[tris[t * 3 + 2]]];
+      // skip degenerate triangles
+      if (a === b || b === c || a === c) continue;
+      triAlive[t] = 1;
+      aliveCount++;
+      vertTris[a].push(t);
+      vertTris[b].push(t);
+      vertTris[c].push(t);
+    }
+    const triPid = (t: number, k: number): number => pidOf[tris[t * 3 + k]];
+    const faceNormal = (p0: Array<number>, p1: Array<number>, p2: Array<number>): Array<number> => {
+      const e1 = [p1[0] - p0[0], p1[1] - p0[1], p1[2] - p0[2]];
+      const e2 = [p2[0] - p0[0], p2[1] - p0[1], p2[2] - p0[2]];
+      return [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+    };
+
+    // find border edges (one triangle) and seam edges (different attributes on each side)
+    const edgeKey = (a: number, b: number): number => a < b ? a * pCount + b : b * pCount + a;
+    const edgeTris: Map<number, Array<number>> = new Map();
+    for (let t=0; t<triCount; t++) {
+      if (!triAlive[t]) continue;
+      for (let k=0; k<3; k++) {
+        const key = edgeKey(triPid(t, k), triPid(t, (k + 1) % 3));
+        const list = edgeTris.get(key);
+        if (list) list.push(t);
+        else edgeTris.set(key, [t]);
+      }
+    }
+    const special: Set<number> = new Set();
+    const border = new Uint8Array(pCount);
+    // attribute vertices of edge in triangle, ordered by position id
+    const edgeAttributes = (t: number, a: number, b: number): string => {
+      let va = -1, vb = -1;
+      for (let k=0; k<3; k++) {
+        if (triPid(t, k) === a) va = tris[t * 3 + k];
+        if (triPid(t, k) === b) vb = tris[t * 3 + k];
+      }
+      return a < b ? `${va},${vb}` : `${vb},${va}`;
+    };
+    edgeTris.forEach((list, key) => {
+      const a = Math.floor(key / pCount), b = key % pCount;
+      if (list.length !== 2) {
+        special.add(key);
+        border[a] = 1;
+        border[b] = 1;
+      } else if (edgeAttributes(list[0], a, b) !== edgeAttributes(list[1], a, b)) {
+        special.add(key);
+      }
+    });
+
+    // quadrics (plane equation terms and total weight per position)
+    const quadrics = new Float64Array(pCount * 11);
+    const addPlane = (pid: number, n: Array<number>, d: number, w: number) => {
+      const [a, b, c] = n;
+      const q = [a * a, a * b, a * c, a * d, b * b, b * c, b * d, c * c, c * d, d * d];
+      for (let i=0; i<10; i++) quadrics[pid * 11 + i] += q[i] * w;
+      quadrics[pid * 11 + 10] += w;
+    };
+    for (let t=0; t<triCount; t++) {
+      if (!triAlive[t]) continue;
+      const p = [0, 1, 2].map(k => pos(triPid(t, k)));
+      const n = faceNormal(p[0], p[1], p[2]);
+      const m = Math.hypot(n[0], n[1], n[2]);
+      if (m <= 0) continue;
+      const unit = [n[0] / m, n[1] / m, n[2] / m];
+      const d = -(unit[0] * p[0][0] + unit[1] * p[0][1] + unit[2] * p[0][2]);
+      for (let k=0; k<3; k++) addPlane(triPid(t, k), unit, d, m / 2);
+    }
+    // perpendicular planes keep borders/seams in place
+    special.forEach(key => {
+      const a = Math.floor(key / pCount), b = key % pCount;
+      const pa = pos(a), pb = pos(b);
+      const e = [pb[0] - pa[0], pb[1] - pa[1], pb[2] - pa[2]];
+      const lengthSq = e[0] * e[0] + e[1] * e[1] + e[2] * e[2];
+      edgeTris.get(key)?.forEach(t => {
+        const n = faceNormal(pos(triPid(t, 0)), pos(triPid(t, 1)), pos(triPid(t, 2)));
+        const c = [e[1] * n[2] - e[2] * n[1], e[2] * n[0] - e[0] * n[2], e[0] * n[1] - e[1] * n[0]];
+        const m = Math.hypot(c[0], c[1], c[2]);
+        if (m <= 0) return;
+        const unit = [c[0] / m, c[1] / m, c[2] / m];
+        const d = -(unit[0] * pa[0] + unit[1] * pa[1] + unit[2] * pa[2]);
+        addPlane(a, unit, d, lengthSq * 10);
+        addPlane(b, unit, d, lengthSq * 10);
+      });
+    });
+    // cost of moving position u onto v (orders collapses, maxError is checked separately)
+    const collapseError = (u: number, v: number): number => {
+      const q = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(i => quadrics[u * 11 + i] + quadrics[v * 11 + i]);
+      const [x, y, z] = pos(v);
+      const cost = q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x
+        + q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y
+        + q[7] * z * z + 2 * q[8] * z + q[9];
+      return Math.sqrt(Math.max(cost, 0) / Math.max(q[10], 1e-12));
+    };
+
+    // min heap of collapse candidates, invalidated by vertex versions
+    const versions = new Uint32Array(pCount);
+    // removed positions closest to each triangle (only tracked for maxError)
+    const removed: Array<Array<number>> = Array.from({ length: triCount }, () => []);
+    const pidAlive = new Uint8Array(pCount).fill(1);
+    const heap: Array<{ error: number, u: number, v: number, versionU: number, versionV: number }> = [];
+    const push = (u: number, v: number) => {
+      heap.push({ error: collapseError(u, v), u, v, versionU: versions[u], versionV: versions[v] });
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent].error <= heap[i].error) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = () => {
+      const top = heap[0];
+      const last = heap.pop();
+      if (last !== undefined && heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        while (true) {
+          const l = i * 2 + 1, r = l + 1;
+          let min = i;
+          if (l < heap.length && heap[l].error < heap[min].error) min = l;
+          if (r < heap.length && heap[r].error < heap[min].error) min = r;
+          if (min === i) break;
+          [heap[min], heap[i]] = [heap[i], heap[min]];
+          i = min;
+        }
+      }
+      return top;
+    };
+    const neighbours = (u: number): Set<number> => {
+      const out: Set<number> = new Set();
+      vertTris[u].forEach(t => {
+        if (!triAlive[t]) return;
+        for (let k=0; k<3; k++) if (triPid(t, k) !== u) out.add(triPid(t, k));
+      });
+      return out;
+    };
+    edgeTris.forEach((_, key) => {
+      const a = Math.floor(key / pCount), b = key % pCount;
+      push(a, b);
+      push(b, a);
+    });
+
+    // collapse edges until target is reached
+    while (aliveCount > target && heap.length > 0) {
+      const { u, v, versionU, versionV } = pop();
+      if (!pidAlive[u] || !pidAlive[v] || versions[u] !== versionU || versions[v] !== versionV) continue;
+      const uNeighbours = neighbours(u);
+      if (!uNeighbours.has(v)) continue;
+      // seam/border vertices can only move along their seam/border
+      if (options?.lockBorders && border[u]) continue;
+      const specialCount = Array.from(uNeighbours).filter(n => special.has(edgeKey(u, n))).length;
+      if (specialCount > 0 && (specialCount !== 2 || !special.has(edgeKey(u, v)))) continue;
+      // keep mesh manifold (shared neighbours must belong to the collapsed triangles)
+      const shared = vertTris[u].filter(t => triAlive[t] && [0, 1, 2].some(k => triPid(t, k) === v));
+      const vNeighbours = neighbours(v);
+      let common = 0;
+      uNeighbours.forEach(n => { if (vNeighbours.has(n)) common++; });
+      if (common > shared.length) continue;
+      // attribute vertices of u must map onto attribute vertices of v
+      const attributeMap: Map<number, number> = new Map();
+      let valid = true;
+      shared.forEach(t => {
+        let au = -1, av = -1;
+        for (let k=0; k<3; k++) {
+          if (triPid(t, k) === u) au = tris[t * 3 + k];
+          if (triPid(t, k) === v) av = tris[t * 3 + k];
+        }
+        const mapped = attributeMap.get(au);
+        if (mapped !== undefined && mapped !== av) valid = false;
+        attributeMap.set(au, av);
+      });
+      const moved = vertTris[u].filter(t => triAlive[t] && !shared.includes(t));
+      const pv = pos(v);
+      for (const t of moved) {
+        if (!valid) break;
+        const p = [0, 1, 2].map(k => pos(triPid(t, k)));
+        const k = [0, 1, 2].find(k => triPid(t, k) === u);
+        if (k === undefined || !attributeMap.has(tris[t * 3 + k])) {
+          valid = false;
+          break;
+        }
+        // reject collapses that flip triangles
+        const before = faceNormal(p[0], p[1], p[2]);
+        p[k] = pv;
+        const after = faceNormal(p[0], p[1], p[2]);
+        if (before[0] * after[0] + before[1] * after[1] + before[2] * after[2] <= 0) valid = false;
+      }
+      if (!valid) continue;
+      // removed positions must stay within maxError of the triangles around v
+      const assigned: Array<[number, number]> = [];
+      if (maxError < Infinity) {
+        const corners = (t: number) => [0, 1, 2].map(k => triPid(t, k) === u ? pv : pos(triPid(t, k)));
+        const fan = vertTris[v].filter(t => triAlive[t] && !shared.includes(t)).concat(moved);
+        const fanCorners = fan.map(corners);
+        const points = [u, ...shared.flatMap(t => removed[t]), ...moved.flatMap(t => removed[t])];
+        for (const r of points) {
+          const p = pos(r);
+          let best = -1, bestDistance = maxError;
+          fanCorners.forEach(([a, b, c], i) => {
+            const distance = this.triangleDistance(p, a, b, c);
+            if (distance <= bestDistance) {
+              best = fan[i];
+              bestDistance = distance;
+            }
+          });
+          if (best === -1) {
+            valid = false;
+            break;
+          }
+          assigned.push([r, best]);
+        }
+        if (!valid) continue;
+      }
+
+      // apply collapse
+      shared.forEach(t => {
+        triAlive[t] = 0;
+        aliveCount--;
+      });
+      moved.forEach(t => {
+        for (let k=0; k<3; k++) {
+          if (triPid(t, k) !== u) continue;
+          const mapped = attributeMap.get(tris[t * 3 + k]);
+          if (mapped === undefined) throw new Error(`Could not find collapsed attribute vertex ${tris[t * 3 + k]}`);
+          tris[t * 3 + k] = mapped;
+        }
+        vertTris[v].push(t);
+      });
+      uNeighbours.forEach(n => {
+        if (n !== v && special.has(edgeKey(u, n))) special.add(edgeKey(v, n));
+      });
+      for (let i=0; i<11; i++) quadrics[v * 11 + i] += quadrics[u * 11 + i];
+      shared.forEach(t => removed[t] = []);
+      moved.forEach(t => removed[t] = []);
+      assigned.forEach(([r, t]) => removed[t].push(r));
+      if (border[u]) border[v] = 1;
+      pidAlive[u] = 0;
+      versions[v]++;
+      vertTris[v] = vertTris[v].filter(t => triAlive[t]);
+      neighbours(v).forEach(n => {
+        push(v, n);
+        push(n, v);
+      });
+    }
+
+    const output: Array<number> = [];
+    for (let t=0; t<triCount; t++) {
+      if (triAlive[t]) output.push(tris[t * 3], tris[t * 3 + 1], tris[t * 3 + 2]);
+    }
+    return output;
+  }
+  // distance from point to closest point on triangle
+  private static triangleDistance(p: Array<number>, a: Array<number>, b: Array<number>, c: Array<number>): number {
+    const sub = (x: Array<number>, y: Array<number>) => [x[0] - y[0], x[1] - y[1], x[2] - y[2]];
+    const dot = (x: Array<number>, y: Array<number>) => x[0] * y[0] + x[1] * y[1] + x[2] * y[2];
+    const at = (s: number, t: number) => [0, 1, 2].map(i => a[i] + ab[i] * s + ac[i] * t);
+    const ab = sub(b, a), ac = sub(c, a), ap = sub(p, a);
+    // find closest point by voronoi region of triangle
+    let closest: Array<number>;
+    const d1 = dot(ab, ap), d2 = dot(ac, ap);
+    const bp = sub(p, b), d3 = dot(ab, bp), d4 = dot(ac, bp);
+    const cp = sub(p, c), d5 = dot(ab, cp), d6 = dot(ac, cp);
+    const va = d3 * d6 - d5 * d4, vb = d5 * d2 - d1 * d6, vc = d1 * d4 - d3 * d2;
+    if (d1 <= 0 && d2 <= 0) closest = a;
+    else if (d3 >= 0 && d4 <= d3) closest = b;
+    else if (d6 >= 0 && d5 <= d6) closest = c;
+    else if (vc <= 0 && d1 >= 0 && d3 <= 0) closest = at(d1 / (d1 - d3), 0);
+    else if (vb <= 0 && d2 >= 0 && d6 <= 0) closest = at(0, d2 / (d2 - d6));
+    else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      const w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+      closest = [0, 1, 2].map(i => b[i] + (c[i] - b[i]) * w);
+    } else {
+      const denom = va + vb + vc;
+      closest = denom !== 0 ? at(vb / denom, vc / denom) : a;
+    }
+    const d = sub(p, closest);
+    return Math.hypot(d[0], d[1], d[2]);
+  }
+  // read index of buffer shape (sequential for shapes without index)
+  private static readIndices(shape: BufferShape): ArrayLike<number> {
+    if (!shape.index || !shape.indexCount) return Array.from({ length: shape.vertexCount }, (_, i) => i);
+    return shape.indexType === 'uint32'
+      ? new Uint32Array(shape.index, 0, shape.indexCount)
+      : new Uint16Array(shape.index, 0, shape.indexCount);
+  }
+  // group vertices sharing a position, returning position id per vertex and first vertex per position id
+  private static groupPositions(positions: Float32Array, count: number): { pidOf: Uint32Array, pidSource: Array<number> } {
+    const pidOf = new Uint32Array(count);
+    const pidSource: Array<number> = [];
+    const pidKeys: Map<string, number> = new Map();
+    for (let v=0; v<count; v++) {
+      const key = `${positions[v * 3]},${positions[v * 3 + 1]},${positions[v * 3 + 2]}`;
+      let pid = pidKeys.get(key);
+      if (pid === undefined) {
+        pid = pidSource.length;
+        pidKeys.set(key, pid);
+        pidSource.push(v);
+      }
+      pidOf[v] = pid;
+    }
+    return { pidOf, pidSource };
+  }
+  // remove unused vertices, returning source vertex per vertex and remapped index
+  private static compactVertices(triangles: Array<number>): { remap: Array<number>, index: Array<number> } {
+    const ids: Map<number, number> = new Map();
+    const remap: Array<number> = [];
+    const index = triangles.map(v => {
+      let id = ids.get(v);
+      if (id === undefined) {
+        id = remap.length;
+        ids.set(v, id);
+        remap.push(v);
+      }
+      return id;
+    });
+    return { remap, index };
+  }
+  // find unique vertices, returning source vertex per unique vertex and unique vertex per source vertex
+  private static weldVertices(
+    count: number,
+    positions: Float32Array,
+    uvs: Float32Array,
+    normals: Float32Array,
+    epsilon: number
+  ): { remap: Array<number>, vertexIndex: Uint32Array } {
+    const remap: Array<number> = [];
+    const vertexIndex = new Uint32Array(count);
+    const values = (i: number): Array<number> => [
+      positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2],
+      uvs[i * 2], uvs[i * 2 + 1],
+      normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2],
+    ];
+    // exact matches
+    if (epsilon <= 0) {
+      const unique: Map<string, number> = new Map();
+      for (let i=0; i<count; i++) {
+        const key = values(i).join(",");
+        let id = unique.get(key);
+        if (id === undefined) {
+          id = remap.length;
+          unique.set(key, id);
+          remap.push(i);
+        }
+        vertexIndex[i] = id;
+      }
+      return { remap, vertexIndex };
+    }
+    // spatial hash of positions, searching neighbouring cells for values within epsilon
+    const cells: Map<string, Array<number>> = new Map();
+    const cellOf = (v: number): number => Math.floor(v / epsilon);
+    for (let i=0; i<count; i++) {
+      const current = values(i);
+      const cell = [cellOf(current[0]), cellOf(current[1]), cellOf(current[2])];
+      let id: number | undefined;
+      for (let n=0; n<27 && id === undefined; n++) {
+        const key = `${cell[0] + n % 3 - 1},${cell[1] + Math.floor(n / 3) % 3 - 1},${cell[2] + Math.floor(n / 9) - 1}`;
+        id = cells.get(key)?.find(candidate => {
+          const other = values(remap[candidate]);
+          return other.every((v, k) => Math.abs(v - current[k]) <= epsilon);
+        });
+      }
+      if (id === undefined) {
+        id = remap.length;
+        remap.push(i);
+        const key = cell.join(",");
+        const list = cells.get(key);
+        if (list) list.push(id);
+        else cells.set(key, [id]);
+      }
+      vertexIndex[i] = id;
+    }
+    return { remap, vertexIndex };
+  }
+  // compute normal for each triangle corner (3 floats per corner)
+  private static cornerNormals(positions: Float32Array, triangles: ArrayLike<number>, options?: NormalOptions): Float32Array {
+    const triCount = Math.floor(triangles.length / 3);
+    const mode = options?.mode ?? 'smooth';
+    const cosCrease = Math.cos((options?.creaseAngle ?? 180) * Math.PI / 180);
+    const groups = options?.smoothingGroups;
+    const faceNormals = new Float32Array(triCount * 3);
+    const angles = new Float32Array(triCount * 3);
+
+    // face normals and corner angles
+    for (let t=0; t<triCount; t++) {
+      const p = [0, 1, 2].map(k => {
+        const v = triangles[t * 3 + k];
+        return [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+      });
+      const e1 = [p[1][0] - p[0][0], p[1][1] - p[0][1], p[1][2] - p[0][2]];
+      const e2 = [p[2][0] - p[0][0], p[2][1] - p[0][1], p[2][2] - p[0][2]];
+      const n = [
+        e1[1] * e2[2] - e1[2] * e2[1],
+        e1[2] * e2[0] - e1[0] * e2[2],
+        e1[0] * e2[1] - e1[1] * e2[0],
+      ];
+      const m = Math.hypot(n[0], n[1], n[2]);
+      if (m > 0) faceNormals.set([n[0] / m, n[1] / m, n[2] / m], t * 3);
+      // angle at each corner
+      for (let k=0; k<3; k++) {
+        const o = p[k], a = p[(k + 1) % 3], b = p[(k + 2) % 3];
+        const u = [a[0] - o[0], a[1] - o[1], a[2] - o[2]];
+        const w = [b[0] - o[0], b[1] - o[1], b[2] - o[2]];
+        const lu = Math.hypot(u[0], u[1], u[2]), lw = Math.hypot(w[0], w[1], w[2]);
+        if (lu <= 0 || lw <= 0) continue;
+        const cos = (u[0] * w[0] + u[1] * w[1] + u[2] * w[2]) / (lu * lw);
+        angles[t * 3 + k] = Math.acos(Math.min(Math.max(cos, -1), 1));
+      }
+    }
+
+    const output = new Float32Array(triCount * 9);
+    if (mode === 'flat') {
+      for (let t=0; t<triCount; t++) {
+        for (let k=0; k<3; k++) output.set(faceNormals.subarray(t * 3, t * 3 + 3), (t * 3 + k) * 3);
+      }
+      return output;
+    }
+
+    // group corners by position
+    const byPosition: Map<string, Array<number>> = new Map();
+    for (let c=0; c<triCount*3; c++) {
+      const v = triangles[c];
+      const key = `${positions[v * 3]},${positions[v * 3 + 1]},${positions[v * 3 + 2]}`;
+      const list = byPosition.get(key);
+      if (list) list.push(c);
+      else byPosition.set(key, [c]);
+    }
+    // accumulate normals of neighbouring faces
+    byPosition.forEach(list => {
+      list.forEach(c => {
+        const t = Math.floor(c / 3);
+        const group = groups?.[t] ?? 1;
+        let nx = 0, ny = 0, nz = 0;
+        list.forEach(c2 => {
+          const t2 = Math.floor(c2 / 3);
+          if (t2 !== t) {
+            // smoothing group 0 means no smoothing
+            if (group === 0 || (groups?.[t2] ?? 1) !== group) return;
+            const dot = faceNormals[t * 3] * faceNormals[t2 * 3]
+              + faceNormals[t * 3 + 1] * faceNormals[t2 * 3 + 1]
+              + faceNormals[t * 3 + 2] * faceNormals[t2 * 3 + 2];
+            if (dot < cosCrease) return;
+          }
+          const w = angles[c2];
+          nx += faceNormals[t2 * 3] * w;
+          ny += faceNormals[t2 * 3 + 1] * w;
+          nz += faceNormals[t2 * 3 + 2] * w;
+        });
+        const m = Math.hypot(nx, ny, nz);
+        if (m > 0) output.set([nx / m, ny / m, nz / m], c * 3);
+        else output.set(faceNormals.subarray(t * 3, t * 3 + 3), c * 3);
+      });
+    });
+    return output;
+  }
+  // assign corner normals to vertices, duplicating vertices where corners disagree
+  private static splitByNormals(
+    vertexCount: number,
+    triangles: ArrayLike<number>,
+    corners: Float32Array
+  ): { remap: Array<number>, normals: Float32Array, index: Array<number> } {
+    const remap: Array<number> = Array.from({ length: vertexCount }, (_, i) => i);
+    const normals: Array<number> = new Array(vertexCount * 3).fill(0);
+    const assigned: Array<boolean> = new Array(vertexCount).fill(false);
+    const splits: Map<string, number> = new Map();
+    const index: Array<number> = [];
+    for (let c=0; c<corners.length/3; c++) {
+      const v = triangles[c];
+      const n = [corners[c * 3], corners[c * 3 + 1], corners[c * 3 + 2]];
+      if (!assigned[v]) {
+        normals[v * 3] = n[0];
+        normals[v * 3 + 1] = n[1];
+        normals[v * 3 + 2] = n[2];
+        assigned[v] = true;
+        index.push(v);
+        continue;
+      }
+      if (this.sameNormal(normals, v, n)) {
+        index.push(v);
+        continue;
+      }
+      const key = `${v}|${n.map(x => Math.round(x * 1e4)).join(",")}`;
+      let split = splits.get(key);
+      if (split === undefined) {
+        split = remap.length;
+        splits.set(key, split);
+        remap.push(v);
+        normals.push(n[0], n[1], n[2]);
+      }
+      index.push(split);
+    }
+    return { remap, normals: new Float32Array(normals), index };
+  }
+  // splitByNormals helper
+  private static sameNormal(normals: ArrayLike<number>, v: number, n: Array<number>): boolean {
+    return Math.abs(normals[v * 3] - n[0]) < 1e-5
+      && Math.abs(normals[v * 3 + 1] - n[1]) < 1e-5
+      && Math.abs(normals[v * 3 + 2] - n[2]) < 1e-5;
+  }
+}
+
+export default MeshUtils;
\ No newline at end of file
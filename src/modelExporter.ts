@@ -0,0 +1,316 @@
+import { MeshUtils } from './index';
+import type {
+  Shape,
+  BufferShape,
+  ExportMesh,
+  GltfData,
+  GltfAccessor,
+  GltfBufferView,
+  GltfMesh,
+  GltfNode,
+  GltfMaterial,
+  GltfImage,
+  GltfTexture,
+} from './index';
+
+// flattened vertex data of a shape
+interface MeshArrays {
+  vertexCount: number,
+  positions: Float32Array,
+  uvs?: Float32Array,
+  normals?: Float32Array,
+  index?: Uint16Array | Uint32Array,
+}
+
+/**
+ * Helper for writing shapes into common model file formats (gltf/glb/obj)
+ */
+class ModelExporter {
+  // export meshes as gltf data with an embedded base64 buffer
+  // note: the output can be saved as a .gltf file with JSON.stringify
+  static exportGltf(meshes: Array<ExportMesh>): GltfData {
+    const { json, binary } = this.buildGltf(meshes);
+    json.buffers = [{
+      byteLength: binary.byteLength,
+      uri: "data:application/octet-stream;base64," + this.toBase64(binary),
+    }];
+    return json;
+  }
+  // export meshes as a single .glb file
+  static exportGlb(meshes: Array<ExportMesh>): ArrayBuffer {
+    const { json, binary } = this.buildGltf(meshes);
+    json.buffers = [{ byteLength: binary.byteLength }];
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+    // chunks are padded to 4 bytes (json with spaces, binary with zeros)
+    const jsonLength = Math.ceil(jsonBytes.byteLength / 4) * 4;
+    const binLength = Math.ceil(binary.byteLength / 4) * 4;
+    const length = 12 + 8 + jsonLength + 8 + binLength;
+    const output = new ArrayBuffer(length);
+    const view = new DataView(output);
+    const bytes = new Uint8Array(output);
+    // header
+    view.setUint32(0, 0x46546C67, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, length, true);
+    // JSON chunk
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, 0x4E4F534A, true);
+    bytes.fill(0x20, 20, 20 + jsonLength);
+    bytes.set(jsonBytes, 20);
+    // BIN chunk
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, 0x004E4942, true);
+    bytes.set(binary, binStart + 8);
+    return output;
+  }
+  // export meshes as obj file, with an accompanying mtl file if any mesh has a material
+  // note: node transforms are baked into the vertex data
+  static exportObj(meshes: Array<ExportMesh>, mtlFile: string = "materials.mtl"): { obj: string, mtl?: string } {
+    if (meshes.length === 0) throw new Error("No meshes to export");
+    const lines: Array<string> = ["# webgpu-quickdraw"];
+    const mtlLines: Array<string> = [];
+    const faceLines: Array<string> = [];
+    // vertex tables, deduplicated by formatted value
+    const tables: Array<{ prefix: string, lines: Array<string>, ids: Map<string, number> }> = [
+      { prefix: "v", lines: [], ids: new Map() },
+      { prefix: "vt", lines: [], ids: new Map() },
+      { prefix: "vn", lines: [], ids: new Map() },
+    ];
+    const addValue = (table: number, values: ArrayLike<number>): number => {
+      const t = tables[table];
+      const key = Array.from(values, v => this.formatNumber(v)).join(" ");
+      let id = t.ids.get(key);
+      if (id === undefined) {
+        t.lines.push(`${t.prefix} ${key}`);
+        id = t.lines.length;
+        t.ids.set(key, id);
+      }
+      return id;
+    };
+
+    meshes.forEach((mesh, i) => {
+      const shape = mesh.transform ? this.transformShape(mesh.shape, mesh.transform) : mesh.shape;
+      const arrays = this.meshArrays(shape, mesh.flipY ?? false);
+      if (mesh.name) faceLines.push(`g ${mesh.name}`);
+      // material
+      if (mesh.texture || mesh.color) {
+        const name = mesh.name ?? `material-${i}`;
+        const color = mesh.color ?? [1, 1, 1, 1];
+        mtlLines.push(
+          `newmtl ${name}`,
+          `Kd ${color.slice(0, 3).map(c => this.formatNumber(c)).join(" ")}`,
+          `d ${this.formatNumber(color[3])}`,
+        );
+        if (mesh.texture) mtlLines.push(`map_Kd ${mesh.texture}`);
+        mtlLines.push("");
+        faceLines.push(`usemtl ${name}`);
+      }
+      // vertices
+      const refs: Array<string> = [];
+      for (let v=0; v<arrays.vertexCount; v++) {
+        const p = addValue(0, arrays.positions.subarray(v * 3, v * 3 + 3));
+        const uv = arrays.uvs ? addValue(1, arrays.uvs.subarray(v * 2, v * 2 + 2)) : undefined;
+        const n = arrays.normals ? addValue(2, arrays.normals.subarray(v * 3, v * 3 + 3)) : undefined;
+        if (n !== undefined) refs.push(`${p}/${uv ?? ""}/${n}`);
+        else if (uv !== undefined) refs.push(`${p}/${uv}`);
+        else refs.push(`${p}`);
+      }
+      // faces
+      const index = arrays.index ?? Array.from({ length: arrays.vertexCount }, (_, i) => i);
+      for (let f=0; f+2<index.length; f+=3) {
+        faceLines.push(`f ${refs[index[f]]} ${refs[index[f + 1]]} ${refs[index[f + 2]]}`);
+      }
+    });
+
+    if (mtlLines.length > 0) lines.push(`mtllib ${mtlFile}`);
+    tables.forEach(t => lines.push(...t.lines));
+    lines.push(...faceLines, "");
+    const output: { obj: string, mtl?: string } = { obj: lines.join("\n") };
+    if (mtlLines.length > 0) output.mtl = mtlLines.join("\n");
+    return output;
+  }
+  // build gltf json and binary buffer contents
+  private static buildGltf(meshes: Array<ExportMesh>): { json: GltfData, binary: Uint8Array } {
+    if (meshes.length === 0) throw new Error("No meshes to export");
+    const chunks: Array<Uint8Array> = [];
+    let byteLength = 0;
+    const bufferViews: Array<GltfBufferView> = [];
+    const accessors: Array<GltfAccessor> = [];
+    const gltfMeshes: Array<GltfMesh> = [];
+    const nodes: Array<GltfNode> = [];
+    const materials: Array<GltfMaterial> = [];
+    const images: Array<GltfImage> = [];
+    const textures: Array<GltfTexture> = [];
+    const imageCache: Map<string, number> = new Map();
+
+    // write data into buffer view, aligned to 4 bytes
+    const addAccessor = (
+      data: Float32Array | Uint16Array | Uint32Array,
+      type: string,
+      target: number,
+      minMax: boolean = false
+    ): number => {
+      const padding = (4 - (byteLength % 4)) % 4;
+      if (padding) chunks.push(new Uint8Array(padding));
+      byteLength += padding;
+      chunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+      bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+      byteLength += data.byteLength;
+      const components = type === "SCALAR" ? 1 : Number(type.substring(3));
+      const accessor: GltfAccessor = {
+        bufferView: bufferViews.length - 1,
+        componentType: data instanceof Float32Array ? 5126 : data instanceof Uint32Array ? 5125 : 5123,
+        count: data.length / components,
+        type,
+      };
+      // bounds are required for positions
+      if (minMax) {
+        const min = new Array(components).fill(Infinity);
+        const max = new Array(components).fill(-Infinity);
+        for (let i=0; i<data.length; i++) {
+          const c = i % components;
+          min[c] = Math.min(min[c], data[i]);
+          max[c] = Math.max(max[c], data[i]);
+        }
+        accessor.min = min;
+        accessor.max = max;
+      }
+      accessors.push(accessor);
+      return accessors.length - 1;
+    };
+
+    meshes.forEach((mesh, i) => {
+      const name = mesh.name ?? `mesh-${i}`;
+      const arrays = this.meshArrays(mesh.shape, mesh.flipY ?? false);
+      const attributes: { [key: string]: number } = {
+        POSITION: addAccessor(arrays.positions, "VEC3", 34962, true),
+      };
+      if (arrays.normals) attributes.NORMAL = addAccessor(arrays.normals, "VEC3", 34962);
+      if (arrays.uvs) attributes.TEXCOORD_0 = addAccessor(arrays.uvs, "VEC2", 34962);
+      const primitive: GltfMesh["primitives"][number] = { attributes, mode: 4 };
+      if (arrays.index) primitive.indices = addAccessor(arrays.index, "SCALAR", 34963);
+
+      // material
+      if (mesh.texture || mesh.color) {
+        const pbrMetallicRoughness: NonNullable<GltfMaterial["pbrMetallicRoughness"]> = {
+          baseColorFactor: mesh.color ?? [1, 1, 1, 1],
+          metallicFactor: 0,
+        };
+        if (mesh.texture) {
+          let texture = imageCache.get(mesh.texture);
+          if (texture === undefined) {
+            images.push({ uri: mesh.texture });
+            textures.push({ sampler: 0, source: images.length - 1 });
+            texture = textures.length - 1;
+            imageCache.set(mesh.texture, texture);
+          }
+          pbrMetallicRoughness.baseColorTexture = { index: texture };
+        }
+        materials.push({ name, pbrMetallicRoughness });
+        primitive.material = materials.length - 1;
+      }
+      gltfMeshes.push({ name, primitives: [primitive] });
+
+      const node: GltfNode = { name, mesh: i };
+      if (mesh.transform) {
+        if (mesh.transform.length !== 16) throw new Error(`Invalid transform for mesh ${name}`);
+        node.matrix = Array.from(mesh.transform);
+      }
+      nodes.push(node);
+    });
+
+    // join buffer chunks
+    const binary = new Uint8Array(byteLength);
+    let offset = 0;
+    chunks.forEach(c => {
+      binary.set(c, offset);
+      offset += c.byteLength;
+    });
+    const json: GltfData = {
+      asset: { version: "2.0", generator: "webgpu-quickdraw" },
+      scene: 0,
+      scenes: [{ nodes: nodes.map((_, i) => i) }],
+      nodes,
+      meshes: gltfMeshes,
+      accessors,
+      bufferViews,
+      buffers: [],
+    };
+    if (materials.length > 0) json.materials = materials;
+    if (textures.length > 0) {
+      json.images = images;
+      json.textures = textures;
+      // linear filtering with mipmaps, repeat wrapping
+      json.samplers = [{ magFilter: 9729, minFilter: 9987, wrapS: 10497, wrapT: 10497 }];
+    }
+    return { json, binary };
+  }
+  // read shape or buffer shape into typed arrays
+  private static meshArrays(shape: Shape | BufferShape, flipY: boolean): MeshArrays {
+    let output: MeshArrays;
+    if (shape.vertices instanceof ArrayBuffer) {
+      const s = shape as BufferShape;
+      const count = s.vertexCount;
+      output = {
+        vertexCount: count,
+        positions: new Float32Array(s.vertices, 0, count * 3),
+        uvs: s.uvs.byteLength >= count * 8 ? new Float32Array(s.uvs.slice(0, count * 8)) : undefined,
+        normals: s.normals.byteLength >= count * 12 ? new Float32Array(s.normals, 0, count * 3) : undefined,
+      };
+      if (s.index && s.indexCount) {
+        output.index = s.indexType === 'uint32'
+          ? new Uint32Array(s.index, 0, s.indexCount)
+          : new Uint16Array(s.index, 0, s.indexCount);
+      }
+    } else {
+      const s = shape as Shape;
+      const count = s.vertices.length;
+      output = {
+        vertexCount: count,
+        positions: new Float32Array(s.vertices.flat()),
+        uvs: s.uvs.length >= count ? new Float32Array(s.uvs.slice(0, count).flat()) : undefined,
+        normals: s.normals.length >= count ? new Float32Array(s.normals.slice(0, count).flat()) : undefined,
+      };
+      // gltf accessors are not padded
+      if (s.index) output.index = MeshUtils.packIndices(s.index, count).subarray(0, s.index.length);
+    }
+    if (output.vertexCount === 0) throw new Error("Cannot export mesh without vertices");
+    // gltf normals must be unit length, so placeholder normals are dropped
+    const normals = output.normals;
+    if (normals) {
+      for (let i=0; i<normals.length; i+=3) {
+        if (Math.hypot(normals[i], normals[i + 1], normals[i + 2]) < 1e-6) {
+          output.normals = undefined;
+          break;
+        }
+      }
+    }
+    // gltf uv origin is top-left
+    if (flipY && output.uvs) {
+      for (let i=1; i<output.uvs.length; i+=2) output.uvs[i] = 1 - output.uvs[i];
+    }
+    return output;
+  }
+  // bake transform into shape (winding is reversed for mirroring transforms)
+  private static transformShape(shape: Shape | BufferShape, transform: Float32Array | Array<number>): Shape | BufferShape {
+    return shape.vertices instanceof ArrayBuffer
+      ? MeshUtils.transformBuffer(shape as BufferShape, transform)
+      : MeshUtils.transform(shape as Shape, transform);
+  }
+  // format number for text output
+  private static formatNumber(value: number): string {
+    return String(0 + Number(value.toFixed(6)));
+  }
+  // encode binary data as base64 string
+  private static toBase64(data: Uint8Array): string {
+    let raw = "";
+    // build string in blocks to avoid call stack limits
+    for (let i=0; i<data.length; i+=0x8000) {
+      raw += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+    return btoa(raw);
+  }
+}
+
+export default ModelExporter;
\ No newline at end of file
@@ -1,195 +1,1340 @@
-import type { VertexGroup, GltfData, Shape, BufferShape } from './index';
+import { Mat4, MeshUtils } from './index';
+import type {
+  VertexGroup,
+  GltfData,
+  GltfPrimitive,
+  GltfMesh,
+  GltfLoadOptions,
+  GltfPrimitiveShape,
+  GltfSceneObject,
+  GltfMaterialData,
+  GltfTextureInfo,
+  SkinData,
+  AnimationClip,
+  MorphTarget,
+  Renderer,
+  ObjGroup,
+  ObjMaterial,
+  StlShape,
+  PlyShape,
+  NormalOptions,
+  Shape,
+  BufferShape,
+} from './index';
+
+// number of components per gltf accessor type
+const GLTF_TYPE_SIZES: { [type: string]: number } = {
+  SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16,
+};
+// byte size per gltf component type
+const GLTF_COMPONENT_SIZES: { [type: number]: number } = {
+  5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4,
+};
+// gltf extensions supported when required
+// note: quantized attributes are decoded like any other integer accessor
+const GLTF_EXTENSIONS: Array<string> = ["KHR_mesh_quantization"];
+// mtl texture map options, with their argument count
+// note: -o, -s and -t take 1 to 3 numbers
+const MTL_MAP_OPTIONS: { [option: string]: number } = {
+  "-blendu": 1, "-blendv": 1, "-bm": 1, "-boost": 1, "-cc": 1, "-clamp": 1, "-imfchan": 1,
+  "-mm": 2, "-o": 3, "-s": 3, "-t": 3, "-texres": 1, "-type": 1,
+};
+// ply property type aliases
+const PLY_TYPES: { [type: string]: string } = {
+  char: "int8", int8: "int8", uchar: "uint8", uint8: "uint8",
+  short: "int16", int16: "int16", ushort: "uint16", uint16: "uint16",
+  int: "int32", int32: "int32", uint: "uint32", uint32: "uint32",
+  float: "float32", float32: "float32", double: "float64", float64: "float64",
+};
+// byte size per ply property type
+const PLY_SIZES: { [type: string]: number } = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
 
 class ModelLoader {
   // load vertex data from obj file
   static async loadObj(file: string): Promise<Shape> {
     // load raw data as text
     const rawData = await fetch(file).then(v => v.text());
-    const dataArr: Array<string> = rawData.split("\n");
+    return this.parseObj(rawData);
+  }
+  // parse vertex data from obj file contents
+  static parseObj(rawData: string): Shape {
+    const { groups } = this.readObj(rawData);
 
-    // collections
-    let vertices: Array<[number, number, number]> = [];
-    let uvs: Array<[number, number]> = [];
-    let normals: Array<[number, number, number]> = [];
+    // flatten groups into single shape
     let output: Shape = {
       vertices: [],
       uvs: [],
       normals: []
     }
+    groups.forEach(g => {
+      for (let i=0; i<g.vertices.length; i++) {
+        output.vertices.push(g.vertices[i]);
+        output.uvs.push(g.uvs[i]);
+        output.normals.push(g.normals[i]);
+      }
+    });
+    return output;
+  }
+  // load vertex data from obj file, split by object/group/material
+  // note: if renderer is provided, material textures are loaded into the texture cache
+  static async loadObjGroups(file: string, renderer?: Renderer): Promise<Array<ObjGroup>> {
+    // load raw data as text
+    const rawData = await fetch(file).then(v => v.text());
+    const { groups, mtllibs } = this.readObj(rawData);
 
-    // sort data into collections
+    // load material libraries relative to obj file
+    const baseUrl = file.substring(0, file.lastIndexOf("/") + 1);
+    const materials: Array<ObjMaterial> = [];
+    for (const lib of mtllibs) {
+      try {
+        materials.push(...await this.loadMtl(baseUrl + lib, renderer));
+      } catch (e) {
+        console.warn(`Could not load material library ${lib}:`, e);
+      }
+    }
+    return this.assignObjMaterials(groups, materials);
+  }
+  // parse obj file contents split by object/group/material, using already parsed materials
+  static parseObjGroups(rawData: string, materials: Array<ObjMaterial> = []): Array<ObjGroup> {
+    const { groups } = this.readObj(rawData);
+    return this.assignObjMaterials(groups, materials);
+  }
+  // load materials from mtl file
+  // note: if renderer is provided, texture maps are loaded into the texture cache
+  static async loadMtl(file: string, renderer?: Renderer): Promise<Array<ObjMaterial>> {
+    // load raw data as text
+    const rawData = await fetch(file).then(v => v.text());
+    const output = this.parseMtl(rawData);
+    const baseUrl = file.substring(0, file.lastIndexOf("/") + 1);
+
+    // load textures
+    if (renderer) {
+      const textureCache: Map<string, Promise<number | undefined>> = new Map();
+      const loadTexture = (map?: string): Promise<number | undefined> => {
+        if (!map) return Promise.resolve(undefined);
+        let cached = textureCache.get(map);
+        if (!cached) {
+          cached = fetch(baseUrl + map)
+            .then(x => x.blob())
+            .then(blob => this.addBlobTexture(renderer, blob, true))
+            .catch(e => {
+              console.warn(`Could not load texture ${map}:`, e);
+              return undefined;
+            });
+          textureCache.set(map, cached);
+        }
+        return cached;
+      };
+      for (const m of output) {
+        m.diffuseTextureId = await loadTexture(m.diffuseMap);
+        m.bumpTextureId = await loadTexture(m.bumpMap);
+      }
+    }
+    return output;
+  }
+  // parse materials from mtl file contents
+  static parseMtl(rawData: string): Array<ObjMaterial> {
+    const dataArr: Array<string> = rawData.split("\n");
+    const output: Array<ObjMaterial> = [];
+    let current: ObjMaterial | undefined;
+
+    // read color from line
+    const color = (l: Array<string>): [number, number, number] => {
+      const r = Number(l[1]);
+      // single value applies to all channels
+      const g = l.length > 2 ? Number(l[2]) : r;
+      const b = l.length > 3 ? Number(l[3]) : r;
+      return [r, g, b];
+    };
+    // read texture file name from line, after any map options (file names can contain spaces)
+    const mapFile = (line: string, l: Array<string>): string => {
+      let i = 1;
+      while (i < l.length - 1 && MTL_MAP_OPTIONS[l[i]] !== undefined) {
+        const vector = ["-o", "-s", "-t"].includes(l[i]);
+        let args = MTL_MAP_OPTIONS[l[i]];
+        i++;
+        while (args > 0 && i < l.length - 1 && (!vector || !isNaN(Number(l[i])))) {
+          args--;
+          i++;
+        }
+      }
+      return line.trim().replace(new RegExp(`^(\\S+\\s+){${i}}`), "");
+    };
     dataArr.forEach(line => {
-      let type = "-";
-      if (line.startsWith("v ")) type = "vertex";
-      else if (line.startsWith("vt ")) type = "uv";
-      else if (line.startsWith("vn ")) type = "normal";
-      else if (line.startsWith("f ")) type = "index";
-      else return; // skip any other line types
-
-      // split data
-      const l = line.split(" ");
+      const l = line.trim().split(/\s+/);
+      const type = l[0];
+      if (type === "newmtl") {
+        current = {
+          name: l.slice(1).join(" "),
+          ambient: [1, 1, 1],
+          diffuse: [1, 1, 1],
+          specular: [0, 0, 0],
+          shininess: 0,
+          opacity: 1,
+        };
+        output.push(current);
+        return;
+      }
+      if (!current) return;
       switch (type) {
-        case "vertex":
-          if (l.length !== 4) throw new Error("Invalid line input");
-          const v: [number, number, number] = [Number(l[1]), Number(l[2]), Number(l[3])];
-          vertices.push(v);
-          break;
-        case "uv":
-          if (l.length !== 3) throw new Error("Invalid line input");
-          const u: [number, number] = [Number(l[1]), Number(l[2])];
-          uvs.push(u);
-          break;
-        case "normal":
-          if (l.length !== 4) throw new Error("Invalid line input");
-          const n: [number, number, number] = [Number(l[1]), Number(l[2]), Number(l[3])];
-          normals.push(n);
-          break;
-        case "index":
-          if (l.length < 4 || l.length > 5) throw new Error("Invalid line input");
-          const v1: VertexGroup = this.objIndexParse(l[1], vertices, uvs, normals);
-          output.vertices.push(v1.vertex);
-          output.uvs.push(v1.uv);
-          output.normals.push(v1.normal);
-          const v2: VertexGroup = this.objIndexParse(l[2], vertices, uvs, normals);
-          output.vertices.push(v2.vertex);
-          output.uvs.push(v2.uv);
-          output.normals.push(v2.normal);
-          const v3: VertexGroup = this.objIndexParse(l[3], vertices, uvs, normals);
-          output.vertices.push(v3.vertex);
-          output.uvs.push(v3.uv);
-          output.normals.push(v3.normal);
-          if (l.length === 5) {
-            const v4: VertexGroup = this.objIndexParse(l[4], vertices, uvs, normals);
-            output.vertices.push(v3.vertex);
-            output.uvs.push(v3.uv);
-            output.normals.push(v3.normal);
-            output.vertices.push(v4.vertex);
-            output.uvs.push(v4.uv);
-            output.normals.push(v4.normal);
-            output.vertices.push(v1.vertex);
-            output.uvs.push(v1.uv);
-            output.normals.push(v1.normal);
-          }
+        case "Ka":
+          current.ambient = color(l);
+          break;
+        case "Kd":
+          current.diffuse = color(l);
+          break;
+        case "Ks":
+          current.specular = color(l);
+          break;
+        case "Ns":
+          current.shininess = Number(l[1]);
+          break;
+        case "d":
+          current.opacity = Number(l[l.length - 1]);
+          break;
+        case "Tr":
+          current.opacity = 1 - Number(l[l.length - 1]);
+          break;
+        case "map_Kd":
+          // texture options (i.e. -s 1 1 1) come before the file name
+          current.diffuseMap = mapFile(line, l);
+          break;
+        case "map_Bump":
+        case "map_bump":
+        case "bump":
+          current.bumpMap = mapFile(line, l);
           break;
-        case "-":
         default:
           break;
       }
     });
-
     return output;
   }
+  // assign parsed materials to obj groups by name
+  private static assignObjMaterials(groups: Array<ObjGroup>, materials: Array<ObjMaterial>): Array<ObjGroup> {
+    const byName: Map<string, ObjMaterial> = new Map();
+    materials.forEach(m => byName.set(m.name, m));
+    groups.forEach(g => {
+      if (g.materialName) g.material = byName.get(g.materialName);
+    });
+    return groups;
+  }
+  // loadObj helper
+  private static readObj(rawData: string): { groups: Array<ObjGroup>, mtllibs: Array<string> } {
+    const dataArr: Array<string> = rawData.split(/\r?\n/);
+
+    // collections
+    let vertices: Array<[number, number, number]> = [];
+    let uvs: Array<[number, number]> = [];
+    let normals: Array<[number, number, number]> = [];
+    const mtllibs: Array<string> = [];
+    const groups: Map<string, ObjGroup> = new Map();
+    let objectName = "default";
+    let groupName: string | undefined;
+    let materialName: string | undefined;
+    let smoothingGroup = 0;
+    let output: ObjGroup | undefined;
+    // triangles without normals, per group
+    const missingNormals: Map<ObjGroup, Array<boolean>> = new Map();
+    // find or create group for current object/group/material
+    const currentGroup = (): ObjGroup => {
+      const name = groupName ?? objectName;
+      const key = `${name}/${materialName ?? ""}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { name, materialName, vertices: [], uvs: [], normals: [], smoothingGroups: [] };
+        groups.set(key, group);
+        missingNormals.set(group, []);
+      }
+      return group;
+    };
+
+    // sort data into collections
+    let pending = "";
+    dataArr.forEach((rawLine, i) => {
+      const lineNum = i + 1;
+      // join lines ending with a backslash
+      let line = pending + rawLine;
+      if (line.endsWith("\\")) {
+        pending = line.substring(0, line.length - 1) + " ";
+        return;
+      }
+      pending = "";
+      // strip comments and whitespace
+      const comment = line.indexOf("#");
+      if (comment !== -1) line = line.substring(0, comment);
+      const l = line.trim().split(/\s+/);
+      const type = l[0];
+      // read numbers from line
+      const nums = (min: number, max: number): Array<number> => {
+        if (l.length - 1 < min) throw new Error(`Invalid obj input on line ${lineNum}: expected ${min} values`);
+        const out = l.slice(1, max + 1).map(Number);
+        if (out.some(isNaN)) throw new Error(`Invalid obj input on line ${lineNum}: "${line.trim()}"`);
+        return out;
+      };
+
+      switch (type) {
+        case "v": {
+          // extra values (w, vertex colors) are ignored
+          const v = nums(3, 3);
+          vertices.push([v[0], v[1], v[2]]);
+          break;
+        }
+        case "vt": {
+          const u = nums(1, 2);
+          uvs.push([u[0], u[1] ?? 0]);
+          break;
+        }
+        case "vn": {
+          const n = nums(3, 3);
+          normals.push([n[0], n[1], n[2]]);
+          break;
+        }
+        case "o":
+          objectName = l.slice(1).join(" ");
+          groupName = undefined;
+          output = undefined;
+          break;
+        case "g":
+          groupName = l.slice(1).join(" ") || undefined;
+          output = undefined;
+          break;
+        case "usemtl":
+          materialName = l.slice(1).join(" ");
+          output = undefined;
+          break;
+        case "mtllib":
+          mtllibs.push(l.slice(1).join(" "));
+          break;
+        case "s": {
+          // smoothing group, where 0 or off disables smoothing
+          const value = l[1] ?? "off";
+          smoothingGroup = value === "off" ? 0 : Number(value);
+          if (isNaN(smoothingGroup)) throw new Error(`Invalid obj input on line ${lineNum}: "${line.trim()}"`);
+          break;
+        }
+        case "f": {
+          if (l.length < 4) throw new Error(`Invalid obj input on line ${lineNum}: face needs at least 3 vertices`);
+          if (!output) output = currentGroup();
+          const face: Array<VertexGroup> = l.slice(1).map(ref => this.objIndexParse(ref, vertices, uvs, normals, lineNum));
+          const triangles = face.length === 3 ? [0, 1, 2] : this.triangulatePolygon(face.map(f => f.vertex));
+          for (const t of triangles) {
+            output.vertices.push(face[t].vertex);
+            output.uvs.push(face[t].uv);
+            output.normals.push(face[t].normal);
+          }
+          const noNormals = l.slice(1).some(ref => !ref.split("/")[2]);
+          for (let t=0; t<triangles.length/3; t++) {
+            output.smoothingGroups?.push(smoothingGroup);
+            missingNormals.get(output)?.push(noNormals);
+          }
+          break;
+        }
+        default:
+          break; // skip any other line types
+      }
+    });
+
+    // generate normals for faces without them, using the smoothing groups
+    missingNormals.forEach((missing, group) => {
+      if (!missing.some(m => m)) return;
+      const generated = MeshUtils.computeNormals(group, { mode: 'smooth', smoothingGroups: group.smoothingGroups });
+      missing.forEach((m, t) => {
+        if (!m) return;
+        for (let k=t*3; k<t*3+3; k++) group.normals[k] = generated.normals[k];
+      });
+    });
+
+    return { groups: Array.from(groups.values()), mtllibs };
+  }
   // loadObj helper
   private static objIndexParse(
     indexing: string,
     verts: Array<[number, number, number]>,
     uvs: Array<[number, number]>,
-    normals: Array<[number, number, number]>
+    normals: Array<[number, number, number]>,
+    lineNum: number
   ): VertexGroup {
-    // break up indexing
+    // break up indexing (v, v/vt, v//vn, v/vt/vn)
     const ixs = indexing.split("/");
-    const vIdx = Number(ixs[0]) - 1;
-    const uvIdx = Number(ixs[1]) - 1;
-    const nIdx = Number(ixs[2]) - 1;
+    // negative indices are relative to the end of the list
+    const resolve = (raw: string | undefined, length: number, name: string): number => {
+      if (raw === undefined || raw === "") return -1;
+      const idx = Number(raw);
+      if (!Number.isInteger(idx) || idx === 0) {
+        throw new Error(`Invalid obj input on line ${lineNum}: bad ${name} index "${raw}"`);
+      }
+      const out = idx > 0 ? idx - 1 : length + idx;
+      if (out < 0 || out >= length) {
+        throw new Error(`Invalid obj input on line ${lineNum}: ${name} index ${raw} out of range`);
+      }
+      return out;
+    };
+    const vIdx = resolve(ixs[0], verts.length, "vertex");
+    const uvIdx = resolve(ixs[1], uvs.length, "uv");
+    const nIdx = resolve(ixs[2], normals.length, "normal");
+    if (vIdx === -1) throw new Error(`Invalid obj input on line ${lineNum}: missing vertex index`);
 
     return {
       vertex: verts[vIdx],
-      uv: uvs[uvIdx],
-      normal: normals[nIdx]
+      uv: uvIdx === -1 ? [0, 0] : uvs[uvIdx],
+      normal: nIdx === -1 ? [0, 0, 0] : normals[nIdx],
+    }
+  }
+  // triangulate planar polygon by ear clipping, falling back to a fan for degenerate input
+  private static triangulatePolygon(points: Array<[number, number, number]>): Array<number> {
+    const count = points.length;
+    const fan = (): Array<number> => {
+      const out: Array<number> = [];
+      for (let i=1; i<count-1; i++) out.push(0, i, i+1);
+      return out;
+    };
+    // find polygon normal (newell's method) to project onto 2d
+    let nx = 0, ny = 0, nz = 0;
+    for (let i=0; i<count; i++) {
+      const a = points[i], b = points[(i + 1) % count];
+      nx += (a[1] - b[1]) * (a[2] + b[2]);
+      ny += (a[2] - b[2]) * (a[0] + b[0]);
+      nz += (a[0] - b[0]) * (a[1] + b[1]);
     }
+    const ax = Math.abs(nx), ay = Math.abs(ny), az = Math.abs(nz);
+    if (ax + ay + az === 0) return fan();
+    // drop dominant axis, keeping winding counter-clockwise
+    let pts2d: Array<[number, number]>;
+    if (az >= ax && az >= ay) pts2d = points.map(p => [p[0], nz > 0 ? p[1] : -p[1]]);
+    else if (ax >= ay) pts2d = points.map(p => [p[1], nx > 0 ? p[2] : -p[2]]);
+    else pts2d = points.map(p => [p[2], ny > 0 ? p[0] : -p[0]]);
 
+    const cross = (o: [number, number], a: [number, number], b: [number, number]): number => {
+      return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+    };
+    const remaining = points.map((_, i) => i);
+    const output: Array<number> = [];
+    let guard = 0;
+    while (remaining.length > 3 && guard < count * count) {
+      guard++;
+      let clipped = false;
+      for (let i=0; i<remaining.length; i++) {
+        const i0 = remaining[(i + remaining.length - 1) % remaining.length];
+        const i1 = remaining[i];
+        const i2 = remaining[(i + 1) % remaining.length];
+        const a = pts2d[i0], b = pts2d[i1], c = pts2d[i2];
+        // skip reflex vertices
+        if (cross(a, b, c) <= 0) continue;
+        // skip if any other vertex is inside triangle
+        const inside = remaining.some(j => {
+          if (j === i0 || j === i1 || j === i2) return false;
+          const p = pts2d[j];
+          return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+        });
+        if (inside) continue;
+        output.push(i0, i1, i2);
+        remaining.splice(i, 1);
+        clipped = true;
+        break;
+      }
+      if (!clipped) return fan();
+    }
+    if (remaining.length === 3) output.push(remaining[0], remaining[1], remaining[2]);
+    return output;
+  }
+  // load vertex data from stl file (ascii or binary)
+  // note: facet normals from the file are used, unless normal options are provided
+  static async loadStl(file: string, options?: NormalOptions): Promise<StlShape> {
+    const rawData = await fetch(file).then(v => v.arrayBuffer());
+    return this.parseStl(rawData, options);
+  }
+  // parse vertex data from stl file contents
+  static parseStl(rawData: ArrayBuffer | string, options?: NormalOptions): StlShape {
+    let output: StlShape;
+    if (typeof rawData === 'string') {
+      output = this.parseStlAscii(rawData);
+    } else {
+      // binary files have a fixed size, even if the header starts with "solid"
+      const count = rawData.byteLength >= 84 ? new DataView(rawData).getUint32(80, true) : -1;
+      if (count >= 0 && rawData.byteLength === 84 + count * 50) {
+        output = this.parseStlBinary(rawData);
+      } else {
+        const text = new TextDecoder().decode(rawData);
+        if (!/^\s*solid/.test(text)) throw new Error("Invalid stl file: unknown format");
+        output = this.parseStlAscii(text);
+      }
+    }
+    // replace missing facet normals with normals from the winding order
+    if (output.normals.some(n => n[0] === 0 && n[1] === 0 && n[2] === 0)) {
+      const generated = MeshUtils.computeNormals(output, { mode: 'flat' });
+      output.normals = output.normals.map((n, i) => {
+        return n[0] === 0 && n[1] === 0 && n[2] === 0 ? generated.normals[i] : n;
+      });
+    }
+    if (options) {
+      const { normals } = MeshUtils.computeNormals(output, options);
+      output.normals = normals;
+    }
+    return output;
+  }
+  // parseStl helper
+  private static parseStlAscii(rawData: string): StlShape {
+    const output: StlShape = { vertices: [], uvs: [], normals: [] };
+    let normal: [number, number, number] = [0, 0, 0];
+    let loop: Array<[number, number, number]> | undefined;
+    rawData.split(/\r?\n/).forEach((line, i) => {
+      const l = line.trim().split(/\s+/);
+      // read numbers from line
+      const vec3 = (start: number): [number, number, number] => {
+        const v = l.slice(start, start + 3).map(Number);
+        if (v.length < 3 || v.some(isNaN)) throw new Error(`Invalid stl input on line ${i + 1}: "${line.trim()}"`);
+        return [v[0], v[1], v[2]];
+      };
+      switch (l[0]) {
+        case "facet":
+          normal = l[1] === "normal" ? vec3(2) : [0, 0, 0];
+          break;
+        case "outer":
+          loop = [];
+          break;
+        case "vertex":
+          if (!loop) throw new Error(`Invalid stl input on line ${i + 1}: vertex outside of loop`);
+          loop.push(vec3(1));
+          break;
+        case "endloop":
+          if (!loop || loop.length < 3) throw new Error(`Invalid stl input on line ${i + 1}: loop needs at least 3 vertices`);
+          // triangulate polygon loops as a fan
+          for (let v=1; v<loop.length-1; v++) {
+            output.vertices.push(loop[0], loop[v], loop[v + 1]);
+            output.uvs.push([0, 0], [0, 0], [0, 0]);
+            output.normals.push(normal, normal, normal);
+          }
+          loop = undefined;
+          break;
+        default:
+          break; // solid, endfacet, endsolid
+      }
+    });
+    return output;
   }
-  // load vertex data from glb file
-  static async loadGlb(file: string): Promise<any> {
-    const rawData = await fetch(file).then(v => v.blob());
-    console.log("todo", rawData);
+  // parseStl helper
+  private static parseStlBinary(rawData: ArrayBuffer): StlShape {
+    const view = new DataView(rawData);
+    const count = view.getUint32(80, true);
+    const output: StlShape = { vertices: [], uvs: [], normals: [] };
+    // color extensions: magics files define a default color in the header,
+    // viscam/solidview files only use per facet colors
+    const header = new TextDecoder().decode(new Uint8Array(rawData, 0, 80));
+    const colorIdx = header.indexOf("COLOR=");
+    const magics = colorIdx !== -1 && colorIdx + 10 <= 80;
+    const defaultColor: [number, number, number, number] = magics
+      ? [0, 1, 2, 3].map(c => view.getUint8(colorIdx + 6 + c) / 255) as [number, number, number, number]
+      : [1, 1, 1, 1];
+    const colors: Array<[number, number, number, number]> = [];
+    let hasColors = magics;
+
+    for (let f=0; f<count; f++) {
+      const offset = 84 + f * 50;
+      const vec3 = (o: number): [number, number, number] => [
+        view.getFloat32(o, true), view.getFloat32(o + 4, true), view.getFloat32(o + 8, true),
+      ];
+      const normal = vec3(offset);
+      output.vertices.push(vec3(offset + 12), vec3(offset + 24), vec3(offset + 36));
+      output.uvs.push([0, 0], [0, 0], [0, 0]);
+      output.normals.push(normal, normal, normal);
+      // 15 bit color in attribute bytes
+      const attr = view.getUint16(offset + 48, true);
+      const a = (attr & 0x1f) / 31, b = ((attr >> 5) & 0x1f) / 31, c = ((attr >> 10) & 0x1f) / 31;
+      let color = defaultColor;
+      if (magics) {
+        // rgb order, valid if bit 15 is unset
+        if (!(attr & 0x8000)) color = [a, b, c, 1];
+      } else if (attr & 0x8000) {
+        // bgr order, valid if bit 15 is set
+        color = [c, b, a, 1];
+        hasColors = true;
+      }
+      colors.push(color, color, color);
+    }
+    if (hasColors) output.colors = colors;
+    return output;
+  }
+  // load vertex data from ply file (ascii or binary)
+  // note: files without faces are returned as a point-list
+  static async loadPly(file: string): Promise<PlyShape> {
+    const rawData = await fetch(file).then(v => v.arrayBuffer());
+    return this.parsePly(rawData);
+  }
+  // parse vertex data from ply file contents
+  static parsePly(rawData: ArrayBuffer | string): PlyShape {
+    const bytes = typeof rawData === 'string' ? new TextEncoder().encode(rawData) : new Uint8Array(rawData);
+    // find end of header
+    const marker = Array.from("end_header", c => c.charCodeAt(0));
+    let bodyStart = -1;
+    for (let i=0; i+marker.length<=bytes.length && bodyStart === -1; i++) {
+      if (marker.every((c, j) => bytes[i + j] === c)) {
+        let end = i + marker.length;
+        while (end < bytes.length && bytes[end] !== 10) end++;
+        bodyStart = end + 1;
+      }
+    }
+    if (bodyStart === -1) throw new Error("Invalid ply file: missing end_header");
+
+    // read header
+    const header = new TextDecoder().decode(bytes.subarray(0, bodyStart)).split(/\r?\n/);
+    if (header[0].trim() !== "ply") throw new Error("Invalid ply file: bad magic number");
+    let format = "";
+    const elements: Array<{
+      name: string,
+      count: number,
+      properties: Array<{ name: string, type: string, countType?: string }>,
+    }> = [];
+    header.forEach(line => {
+      const l = line.trim().split(/\s+/);
+      switch (l[0]) {
+        case "format":
+          format = l[1];
+          break;
+        case "element":
+          elements.push({ name: l[1], count: Number(l[2]), properties: [] });
+          break;
+        case "property": {
+          const element = elements[elements.length - 1];
+          if (!element) throw new Error("Invalid ply file: property outside of element");
+          const list = l[1] === "list";
+          const type = PLY_TYPES[list ? l[3] : l[1]];
+          const countType = list ? PLY_TYPES[l[2]] : undefined;
+          if (!type || (list && !countType)) throw new Error(`Unsupported ply property "${line.trim()}"`);
+          element.properties.push({ name: l[list ? 4 : 2], type, countType });
+          break;
+        }
+        default:
+          break; // comment, obj_info
+      }
+    });
+    if (!["ascii", "binary_little_endian", "binary_big_endian"].includes(format)) {
+      throw new Error(`Unsupported ply format ${format}`);
+    }
+
+    // value reader for body format
+    let read: (type: string) => number;
+    if (format === "ascii") {
+      const tokens = new TextDecoder().decode(bytes.subarray(bodyStart)).trim().split(/\s+/);
+      let t = 0;
+      read = () => {
+        if (t >= tokens.length) throw new Error("Invalid ply file: unexpected end of file");
+        const value = Number(tokens[t++]);
+        if (isNaN(value)) throw new Error(`Invalid ply input "${tokens[t - 1]}"`);
+        return value;
+      };
+    } else {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + bodyStart, bytes.byteLength - bodyStart);
+      const little = format === "binary_little_endian";
+      let offset = 0;
+      read = (type: string) => {
+        const size = PLY_SIZES[type];
+        if (offset + size > view.byteLength) throw new Error("Invalid ply file: unexpected end of file");
+        let value: number;
+        switch (type) {
+          case "int8": value = view.getInt8(offset); break;
+          case "uint8": value = view.getUint8(offset); break;
+          case "int16": value = view.getInt16(offset, little); break;
+          case "uint16": value = view.getUint16(offset, little); break;
+          case "int32": value = view.getInt32(offset, little); break;
+          case "uint32": value = view.getUint32(offset, little); break;
+          case "float32": value = view.getFloat32(offset, little); break;
+          default: value = view.getFloat64(offset, little); break;
+        }
+        offset += size;
+        return value;
+      };
+    }
+
+    // read elements
+    let vertexCount = 0;
+    let vertices = new Float32Array(0);
+    let uvs = new Float32Array(0);
+    let normals = new Float32Array(0);
+    let colors: Float32Array | undefined;
+    let hasNormals = false;
+    const index: Array<number> = [];
+    // vertex property name -> [target, component]
+    const targets: { [name: string]: [string, number] } = {
+      x: ["v", 0], y: ["v", 1], z: ["v", 2],
+      nx: ["n", 0], ny: ["n", 1], nz: ["n", 2],
+      u: ["t", 0], s: ["t", 0], texture_u: ["t", 0], texture_s: ["t", 0],
+      v: ["t", 1], t: ["t", 1], texture_v: ["t", 1], texture_t: ["t", 1],
+      red: ["c", 0], green: ["c", 1], blue: ["c", 2], alpha: ["c", 3],
+      diffuse_red: ["c", 0], diffuse_green: ["c", 1], diffuse_blue: ["c", 2],
+    };
+    // max value of integer colors
+    const colorScale: { [type: string]: number } = {
+      int8: 127, uint8: 255, int16: 32767, uint16: 65535, int32: 2147483647, uint32: 4294967295,
+    };
+    elements.forEach(element => {
+      if (element.name === "vertex") {
+        vertexCount = element.count;
+        vertices = new Float32Array(vertexCount * 3);
+        uvs = new Float32Array(vertexCount * 2);
+        normals = new Float32Array(vertexCount * 3);
+        hasNormals = element.properties.some(p => targets[p.name]?.[0] === "n");
+        if (element.properties.some(p => targets[p.name]?.[0] === "c")) {
+          colors = new Float32Array(vertexCount * 4).fill(1);
+        }
+      }
+      for (let i=0; i<element.count; i++) {
+        element.properties.forEach(prop => {
+          // list properties
+          if (prop.countType) {
+            const count = read(prop.countType);
+            const items: Array<number> = [];
+            for (let k=0; k<count; k++) items.push(read(prop.type));
+            if (element.name !== "face" || (prop.name !== "vertex_indices" && prop.name !== "vertex_index")) return;
+            items.forEach(v => {
+              if (v < 0 || v >= vertexCount) throw new Error(`Invalid ply file: vertex index ${v} out of range`);
+            });
+            // triangulate polygons as a fan
+            for (let k=1; k<items.length-1; k++) index.push(items[0], items[k], items[k + 1]);
+            return;
+          }
+          const value = read(prop.type);
+          if (element.name !== "vertex") return;
+          const target = targets[prop.name];
+          if (!target) return;
+          switch (target[0]) {
+            case "v": vertices[i * 3 + target[1]] = value; break;
+            case "n": normals[i * 3 + target[1]] = value; break;
+            case "t": uvs[i * 2 + target[1]] = value; break;
+            default:
+              if (colors) colors[i * 4 + target[1]] = value / (colorScale[prop.type] ?? 1);
+              break;
+          }
+        });
+      }
+    });
+    if (vertexCount === 0) throw new Error("Invalid ply file: missing vertices");
+
+    const output: PlyShape = {
+      vertices: vertices.buffer,
+      vertexCount,
+      uvs: uvs.buffer,
+      normals: normals.buffer,
+      topology: index.length > 0 ? 'triangle-list' : 'point-list',
+    };
+    if (colors) output.colors = colors.buffer;
+    if (index.length > 0) {
+      const indexMap = MeshUtils.packIndices(index, vertexCount);
+      output.index = indexMap.buffer;
+      output.indexCount = index.length;
+      output.indexType = indexMap instanceof Uint32Array ? 'uint32' : 'uint16';
+      // smooth normals keep vertices (and colors) aligned
+      if (!hasNormals) output.normals = MeshUtils.computeBufferNormals(output, { mode: 'smooth' }).normals;
+    }
+    return output;
+  }
+  // load model data from glb file
+  static async loadGlb(file: string): Promise<GltfData> {
+    const rawData = await fetch(file).then(v => v.arrayBuffer());
+    return this.parseGlb(rawData);
+  }
+  // parse model data from glb file contents
+  static parseGlb(rawData: ArrayBuffer): GltfData {
+    const view = new DataView(rawData);
+    // read header
+    if (rawData.byteLength < 12) throw new Error("Invalid glb file: missing header");
+    const magic = view.getUint32(0, true);
+    const version = view.getUint32(4, true);
+    const length = view.getUint32(8, true);
+    if (magic !== 0x46546C67) throw new Error("Invalid glb file: bad magic number");
+    if (version !== 2) throw new Error(`Unsupported glb version ${version}`);
+    if (length > rawData.byteLength) throw new Error("Invalid glb file: unexpected end of file");
+
+    // read chunks
+    let gltfData: GltfData | undefined;
+    let binaryChunk: ArrayBuffer | undefined;
+    let offset = 12;
+    while (offset + 8 <= length) {
+      const chunkLength = view.getUint32(offset, true);
+      const chunkType = view.getUint32(offset + 4, true);
+      const start = offset + 8;
+      const end = start + chunkLength;
+      if (end > length) throw new Error("Invalid glb file: chunk exceeds file length");
+      if (chunkType === 0x4E4F534A) {
+        // JSON chunk
+        const text = new TextDecoder().decode(new Uint8Array(rawData, start, chunkLength));
+        gltfData = JSON.parse(text);
+      } else if (chunkType === 0x004E4942 && !binaryChunk) {
+        // BIN chunk
+        binaryChunk = rawData.slice(start, end);
+      }
+      // unknown chunk types are skipped
+      offset = end;
+    }
+    if (!gltfData) throw new Error("Invalid glb file: missing JSON chunk");
+    if (binaryChunk) gltfData.binaryChunk = binaryChunk;
+    return this.parseGltf(gltfData);
   }
   // load model data from gltf file
   static async loadGltf(file: string): Promise<GltfData> {
-    const gltfData = await fetch(file).then(v => v.json());
-    // console.log("loaded gltf:", gltfData);
+    const rawData = await fetch(file).then(v => v.text());
+    return this.parseGltf(rawData);
+  }
+  // parse model data from gltf json, optionally with buffer contents (by buffer index)
+  // so they don't need to be resolved when loading meshes
+  static parseGltf(json: string | GltfData, buffers?: Array<ArrayBuffer>): GltfData {
+    const gltfData: GltfData = typeof json === 'string' ? JSON.parse(json) : json;
+    // fail early on required extensions that can't be loaded
+    const unsupported = (gltfData.extensionsRequired ?? []).filter(e => !GLTF_EXTENSIONS.includes(e));
+    if (unsupported.length > 0) throw new Error(`Unsupported gltf extensions: ${unsupported.join(", ")}`);
+    gltfData.accessors = gltfData.accessors ?? [];
+    gltfData.bufferViews = gltfData.bufferViews ?? [];
+    gltfData.buffers = gltfData.buffers ?? [];
+    gltfData.meshes = gltfData.meshes ?? [];
+    if (buffers) gltfData.bufferData = buffers;
     return gltfData;
   }
-  // load data from gltf buffer
-  static async loadGltfMesh(data: GltfData, mesh: number, baseUrl: string = ""): Promise<BufferShape> {
-    // decode gltf info
+  // load data from gltf buffer (first primitive of mesh only)
+  static async loadGltfMesh(data: GltfData, mesh: number, options: string | GltfLoadOptions = ""): Promise<BufferShape> {
     const primitive = data.meshes[mesh]?.primitives[0];
-    const vertAccessIdx: number = primitive.attributes?.POSITION ?? -1;
-    const uvAccessIdx: number = primitive.attributes?.TEXCOORD_0 ?? -1;
-    const nAccessIdx: number = primitive.attributes?.NORMAL ?? -1;
-    const idxAccessIdx: number = primitive?.indices ?? -1;
-    if (vertAccessIdx === -1 || uvAccessIdx === -1 || nAccessIdx === -1 || idxAccessIdx === -1) {
-      throw new Error("Could not find all primitive attributes");
-    }
-    // declare output
-    let output: BufferShape = {
-      vertices: new ArrayBuffer(0),
-      vertexCount: 0,
-      uvs: new ArrayBuffer(0),
-      normals: new ArrayBuffer(0),
-    };
+    if (!primitive) throw new Error(`Could not find mesh ${mesh}`);
+    // load buffers
+    const buffers: Array<ArrayBuffer | Error> = await this.loadGltfBuffers(data, options);
+    return this.readGltfPrimitive(data, buffers, primitive, data.meshes[mesh]);
+  }
+  // load data for all primitives of a gltf mesh
+  static async loadGltfPrimitives(
+    data: GltfData,
+    mesh: number,
+    options: string | GltfLoadOptions = ""
+  ): Promise<Array<GltfPrimitiveShape>> {
+    const gltfMesh = data.meshes[mesh];
+    if (!gltfMesh) throw new Error(`Could not find mesh ${mesh}`);
+    // load buffers
+    const buffers: Array<ArrayBuffer | Error> = await this.loadGltfBuffers(data, options);
+    return gltfMesh.primitives.map(p => this.readGltfPrimitive(data, buffers, p, gltfMesh));
+  }
+  // load all mesh nodes of a gltf scene, with world transforms
+  static async loadGltfScene(
+    data: GltfData,
+    scene?: number,
+    options: string | GltfLoadOptions = ""
+  ): Promise<Array<GltfSceneObject>> {
+    const nodes = data.nodes ?? [];
+    // find root nodes
+    let roots: Array<number>;
+    const sceneIdx = scene ?? data.scene ?? 0;
+    if (data.scenes && data.scenes.length > 0) {
+      const s = data.scenes[sceneIdx];
+      if (!s) throw new Error(`Could not find scene ${sceneIdx}`);
+      roots = s.nodes ?? [];
+    } else {
+      // no scenes defined, use every node without a parent
+      const children = new Set<number>();
+      nodes.forEach(n => n.children?.forEach(c => children.add(c)));
+      roots = nodes.map((_, i) => i).filter(i => !children.has(i));
+    }
+    // load buffers
+    const buffers: Array<ArrayBuffer | Error> = await this.loadGltfBuffers(data, options);
+    const meshCache: Map<number, Array<GltfPrimitiveShape>> = new Map();
+    const output: Array<GltfSceneObject> = [];
 
+    // traverse node hierarchy
+    const visit = (nodeIdx: number, parent: Float32Array, visited: Set<number>) => {
+      const node = nodes[nodeIdx];
+      if (!node) throw new Error(`Could not find node ${nodeIdx}`);
+      if (visited.has(nodeIdx)) throw new Error(`Cycle detected at node ${nodeIdx}`);
+      visited.add(nodeIdx);
+      const world = Mat4.multiply(parent, this.gltfNodeMatrix(data, nodeIdx));
+      if (typeof node.mesh === 'number') {
+        let primitives = meshCache.get(node.mesh);
+        if (!primitives) {
+          const gltfMesh = data.meshes[node.mesh];
+          if (!gltfMesh) throw new Error(`Could not find mesh ${node.mesh}`);
+          primitives = gltfMesh.primitives.map(p => this.readGltfPrimitive(data, buffers, p, gltfMesh));
+          meshCache.set(node.mesh, primitives);
+        }
+        output.push({
+          name: node.name ?? data.meshes[node.mesh].name ?? `node-${nodeIdx}`,
+          node: nodeIdx,
+          mesh: node.mesh,
+          skin: node.skin,
+          primitives,
+          transform: world,
+          morphWeights: node.weights,
+        });
+      }
+      node.children?.forEach(c => visit(c, world, visited));
+      visited.delete(nodeIdx);
+    };
+    roots.forEach(r => visit(r, Mat4.identity(), new Set()));
+    return output;
+  }
+  // get local transform of gltf node
+  static gltfNodeMatrix(data: GltfData, node: number): Float32Array {
+    const n = data.nodes?.[node];
+    if (!n) throw new Error(`Could not find node ${node}`);
+    if (n.matrix && n.matrix.length === 16) return new Float32Array(n.matrix);
+    return Mat4.compose(n.translation ?? [0, 0, 0], n.rotation ?? [0, 0, 0, 1], n.scale ?? [1, 1, 1]);
+  }
+  // load all skins of a gltf file
+  static async loadGltfSkins(data: GltfData, options: string | GltfLoadOptions = ""): Promise<Array<SkinData>> {
+    const skins = data.skins ?? [];
+    if (skins.length === 0) return [];
+    // load buffers
+    const buffers: Array<ArrayBuffer | Error> = await this.loadGltfBuffers(data, options);
+    return skins.map((skin, i) => {
+      let inverseBindMatrices: Float32Array;
+      if (typeof skin.inverseBindMatrices === 'number') {
+        inverseBindMatrices = this.readGltfAccessor(data, buffers, skin.inverseBindMatrices);
+      } else {
+        // defaults to identity matrices
+        inverseBindMatrices = new Float32Array(skin.joints.length * 16);
+        for (let j=0; j<skin.joints.length; j++) inverseBindMatrices.set(Mat4.identity(), j * 16);
+      }
+      const output: SkinData = {
+        name: skin.name ?? `skin-${i}`,
+        joints: skin.joints,
+        inverseBindMatrices,
+        skeleton: skin.skeleton,
+      };
+      return output;
+    });
+  }
+  // load all animations of a gltf file as animation clips
+  static async loadGltfAnimations(data: GltfData, options: string | GltfLoadOptions = ""): Promise<Array<AnimationClip>> {
+    const animations = data.animations ?? [];
+    if (animations.length === 0) return [];
     // load buffers
-    const buffersPromise = data.buffers.map(async (b) => {
-      const o = fetch(baseUrl + "/" + b.uri).then(x => x.arrayBuffer());
-      return o;
+    const buffers: Array<ArrayBuffer | Error> = await this.loadGltfBuffers(data, options);
+    return animations.map((anim, i) => {
+      const output: AnimationClip = {
+        name: anim.name ?? `animation-${i}`,
+        duration: 0,
+        channels: [],
+      };
+      anim.channels.forEach(c => {
+        const sampler = anim.samplers[c.sampler];
+        // channels without a target node are ignored
+        if (!sampler || c.target.node === undefined) return;
+        const path = c.target.path;
+        if (path !== 'translation' && path !== 'rotation' && path !== 'scale' && path !== 'weights') return;
+        const times = this.readGltfAccessor(data, buffers, sampler.input);
+        const values = this.readGltfAccessor(data, buffers, sampler.output);
+        output.channels.push({
+          node: c.target.node,
+          path,
+          interpolation: sampler.interpolation ?? 'LINEAR',
+          times,
+          values,
+        });
+        if (times.length > 0) output.duration = Math.max(output.duration, times[times.length - 1]);
+      });
+      return output;
     });
+  }
+  // load all materials of a gltf file, uploading referenced images to the renderer texture cache
+  // note: images shared between materials are only uploaded once
+  static async loadGltfMaterials(
+    renderer: Renderer,
+    data: GltfData,
+    options: string | GltfLoadOptions = ""
+  ): Promise<Array<GltfMaterialData>> {
+    const imageCache: Map<number, Promise<number | undefined>> = new Map();
+    // upload texture to renderer, returning texture id
+    const loadTexture = async (info?: GltfTextureInfo): Promise<number | undefined> => {
+      if (!info) return undefined;
+      const image = data.textures?.[info.index]?.source;
+      if (image === undefined) return undefined;
+      let cached = imageCache.get(image);
+      if (!cached) {
+        cached = this.loadGltfImage(data, image, options)
+          // gltf uv origin is top left, so image is not flipped
+          .then(blob => this.addBlobTexture(renderer, blob, false))
+          .catch(e => {
+            console.warn(`Could not load gltf image ${image}:`, e);
+            return undefined;
+          });
+        imageCache.set(image, cached);
+      }
+      return cached;
+    };
+
+    const materials = data.materials ?? [];
+    return Promise.all(materials.map(async (m, i) => {
+      const pbr = m.pbrMetallicRoughness ?? {};
+      const output: GltfMaterialData = {
+        name: m.name ?? `material-${i}`,
+        baseColorFactor: pbr.baseColorFactor ?? [1, 1, 1, 1],
+        baseColorTextureId: await loadTexture(pbr.baseColorTexture),
+        metallicFactor: pbr.metallicFactor ?? 1,
+        roughnessFactor: pbr.roughnessFactor ?? 1,
+        metallicRoughnessTextureId: await loadTexture(pbr.metallicRoughnessTexture),
+        normalTextureId: await loadTexture(m.normalTexture),
+        normalScale: m.normalTexture?.scale ?? 1,
+        occlusionTextureId: await loadTexture(m.occlusionTexture),
+        occlusionStrength: m.occlusionTexture?.strength ?? 1,
+        emissiveFactor: m.emissiveFactor ?? [0, 0, 0],
+        emissiveTextureId: await loadTexture(m.emissiveTexture),
+        alphaMode: m.alphaMode ?? 'OPAQUE',
+        alphaCutoff: m.alphaCutoff ?? 0.5,
+        doubleSided: m.doubleSided ?? false,
+      };
+      return output;
+    }));
+  }
+  // load image data from gltf file as a blob
+  static async loadGltfImage(data: GltfData, image: number, options: string | GltfLoadOptions = ""): Promise<Blob> {
+    const img = data.images?.[image];
+    if (!img) throw new Error(`Could not find image ${image}`);
+    // image stored in buffer view
+    if (typeof img.bufferView === 'number') {
+      const view = data.bufferViews[img.bufferView];
+      if (!view) throw new Error(`Could not find buffer view ${img.bufferView}`);
+      const buffer = await this.resolveGltfBuffer(data, view.buffer, options);
+      const start = view.byteOffset ?? 0;
+      return new Blob([buffer.slice(start, start + view.byteLength)], { type: img.mimeType });
+    }
+    if (!img.uri) throw new Error(`Image ${image} has no uri or buffer view`);
+    const buffer = await this.resolveGltfUri(data, img.uri, options);
+    return new Blob([buffer], { type: img.mimeType });
+  }
+  // load image as pixel data, i.e. for Primitives.terrain heightmaps
+  static async loadHeightmap(file: string): Promise<ImageData> {
+    const blob = await fetch(file).then(x => x.blob());
+    const bitmap: ImageBitmap = await createImageBitmap(blob, { colorSpaceConversion: 'none' });
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context");
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  }
+  // decode image blob and upload into renderer texture cache
+  private static async addBlobTexture(renderer: Renderer, blob: Blob, flipY: boolean): Promise<number> {
+    const bitmap: ImageBitmap = await createImageBitmap(blob, { colorSpaceConversion: 'none' });
+    return renderer.addTexture(bitmap.width, bitmap.height, bitmap, false, flipY);
+  }
+  // loadGltfMesh helper
+  // note: buffers that failed to load are returned as their error, which is thrown
+  // when an accessor reads the buffer, so unrelated meshes still load
+  private static async loadGltfBuffers(data: GltfData, options: string | GltfLoadOptions): Promise<Array<ArrayBuffer | Error>> {
+    const buffersPromise = data.buffers.map((_, i) => this.resolveGltfBuffer(data, i, options));
     const buffersRes = await Promise.allSettled(buffersPromise);
-    const buffers: Array<ArrayBuffer> = buffersRes.map(r => {
-      if (r.status === "rejected") return new ArrayBuffer(0);
-      return r.value;
+    return buffersRes.map((r, i) => {
+      if (r.status === "fulfilled") return r.value;
+      const uri = data.buffers[i]?.uri;
+      const source = uri === undefined ? "glb binary chunk" : uri.startsWith("data:") ? "data uri" : `"${uri}"`;
+      const reason = r.reason instanceof Error ? r.reason.message : String(r.reason);
+      return new Error(`Could not load buffer ${i} (${source}): ${reason}`);
     });
+  }
+  // loadGltfMesh helper
+  private static readGltfPrimitive(
+    data: GltfData,
+    buffers: Array<ArrayBuffer | Error>,
+    primitive: GltfPrimitive,
+    mesh?: GltfMesh
+  ): GltfPrimitiveShape {
+    // decode gltf info
+    const vertAccessIdx: number = primitive.attributes?.POSITION ?? -1;
+    const uvAccessIdx: number = primitive.attributes?.TEXCOORD_0 ?? -1;
+    const nAccessIdx: number = primitive.attributes?.NORMAL ?? -1;
+    const idxAccessIdx: number = primitive.indices ?? -1;
+    if (vertAccessIdx === -1) throw new Error("Could not find primitive POSITION attribute");
 
     // read data from buffer
-    if (data.accessors[vertAccessIdx]?.type === "VEC3") {
-      const bufferView = data.accessors[vertAccessIdx].bufferView;
-      const count = data.accessors[vertAccessIdx].count;
-      const bufferAccess = data.bufferViews[bufferView].buffer;
-      const start = data.bufferViews[bufferView].byteOffset;
-      const end = start + data.bufferViews[bufferView].byteLength;
-      // extract buffer slice
-      if (bufferAccess > buffers.length) throw new Error("tried to access non-existant buffer");
-      const slice = buffers[bufferAccess].slice(start, end);
-      output.vertices = slice;
-      output.vertexCount = count;
-    }
-    if (data.accessors[uvAccessIdx]?.type === "VEC2") {
-      const bufferView = data.accessors[uvAccessIdx].bufferView;
-      // const count = data.accessors[uvAccessIdx].count;
-      const bufferAccess = data.bufferViews[bufferView].buffer;
-      const start = data.bufferViews[bufferView].byteOffset;
-      const end = start + data.bufferViews[bufferView].byteLength;
-      // extract buffer slice
-      if (bufferAccess > buffers.length) throw new Error("tried to access non-existant buffer");
-      const slice = buffers[bufferAccess].slice(start, end);
-      output.uvs = slice;
-    }
-    if (data.accessors[nAccessIdx]?.type === "VEC3") {
-      const bufferView = data.accessors[nAccessIdx].bufferView;
-      // const count = data.accessors[nAccessIdx].count;
-      const bufferAccess = data.bufferViews[bufferView].buffer;
-      const start = data.bufferViews[bufferView].byteOffset;
-      const end = start + data.bufferViews[bufferView].byteLength;
-      // extract buffer slice
-      if (bufferAccess > buffers.length) throw new Error("tried to access non-existant buffer");
-      const slice = buffers[bufferAccess].slice(start, end);
-      output.normals = slice;
-    }
-    if (data.accessors[idxAccessIdx]?.type === "SCALAR") {
-      const bufferView = data.accessors[idxAccessIdx].bufferView;
-      const count = data.accessors[idxAccessIdx].count;
-      const bufferAccess = data.bufferViews[bufferView].buffer;
-      const start = data.bufferViews[bufferView].byteOffset;
-      const end = start + data.bufferViews[bufferView].byteLength;
-      // extract buffer slice
-      if (bufferAccess > buffers.length) throw new Error("tried to access non-existant buffer");
-      const slice = buffers[bufferAccess].slice(start, end);
-      output.index = slice;
-      output.indexCount = count;
+    const vertices = this.readGltfAccessor(data, buffers, vertAccessIdx);
+    const vertexCount = data.accessors[vertAccessIdx].count;
+    // fill in defaults for missing attributes
+    const uvs = uvAccessIdx === -1
+      ? new Float32Array(vertexCount * 2)
+      : this.readGltfAccessor(data, buffers, uvAccessIdx);
+    const normals = nAccessIdx === -1
+      ? new Float32Array(vertexCount * 3)
+      : this.readGltfAccessor(data, buffers, nAccessIdx);
+    let output: GltfPrimitiveShape = {
+      vertices: vertices.buffer,
+      vertexCount,
+      uvs: uvs.buffer,
+      normals: normals.buffer,
+      material: primitive.material,
+      topology: 'triangle-list',
+    };
+    // float accessors have exact bounds, otherwise compute from decoded values
+    const posAccessor = data.accessors[vertAccessIdx];
+    if (posAccessor.min?.length === 3 && posAccessor.max?.length === 3 && posAccessor.componentType === 5126 && !posAccessor.sparse) {
+      const [min, max] = [posAccessor.min, posAccessor.max] as Array<[number, number, number]>;
+      const center: [number, number, number] = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+      const radius = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2;
+      output.bounds = { min, max, center, radius };
+    } else {
+      output.bounds = MeshUtils.computeBounds(vertices, vertexCount);
+    }
+    // tangents (xyz with bitangent sign in w)
+    const tAccessIdx: number = primitive.attributes?.TANGENT ?? -1;
+    if (tAccessIdx !== -1) output.tangents = this.readGltfAccessor(data, buffers, tAccessIdx).buffer;
+    // skinning attributes
+    const jointAccessIdx: number = primitive.attributes?.JOINTS_0 ?? -1;
+    const weightAccessIdx: number = primitive.attributes?.WEIGHTS_0 ?? -1;
+    if (jointAccessIdx !== -1 && weightAccessIdx !== -1) {
+      output.joints = new Uint32Array(this.readGltfAccessor(data, buffers, jointAccessIdx)).buffer;
+      output.weights = this.readGltfAccessor(data, buffers, weightAccessIdx).buffer;
+    }
+    // morph targets
+    if (primitive.targets && primitive.targets.length > 0) {
+      output.morphTargets = primitive.targets.map(target => {
+        const positions = typeof target.POSITION === 'number'
+          ? this.readGltfAccessor(data, buffers, target.POSITION)
+          : new Float32Array(vertexCount * 3);
+        const morph: MorphTarget = { positions: positions.buffer };
+        if (typeof target.NORMAL === 'number') {
+          morph.normals = this.readGltfAccessor(data, buffers, target.NORMAL).buffer;
+        }
+        return morph;
+      });
+      output.morphWeights = mesh?.weights ?? primitive.targets.map(() => 0);
+    }
+
+    // convert primitive mode into list topology
+    const mode = primitive.mode ?? 4;
+    if (mode === 0 || mode === 1 || mode === 4) {
+      if (mode === 0) output.topology = 'point-list';
+      if (mode === 1) output.topology = 'line-list';
+      if (idxAccessIdx !== -1) {
+        const index = this.readGltfIndices(data, buffers, idxAccessIdx);
+        output.index = index.buffer;
+        output.indexCount = data.accessors[idxAccessIdx].count;
+        output.indexType = index instanceof Uint32Array ? 'uint32' : 'uint16';
+      }
+      return nAccessIdx === -1 ? this.generateGltfNormals(output) : output;
+    }
+    let source: ArrayLike<number>;
+    let sourceCount = vertexCount;
+    if (idxAccessIdx !== -1) {
+      source = this.readGltfIndices(data, buffers, idxAccessIdx);
+      sourceCount = data.accessors[idxAccessIdx].count;
+    } else {
+      source = Array.from({ length: vertexCount }, (_, i) => i);
+    }
+    const index: Array<number> = [];
+    switch (mode) {
+      case 2: // line loop
+      case 3: // line strip
+        for (let i=0; i<sourceCount-1; i++) index.push(source[i], source[i+1]);
+        if (mode === 2 && sourceCount > 2) index.push(source[sourceCount-1], source[0]);
+        output.topology = 'line-list';
+        break;
+      case 5: // triangle strip
+        for (let i=0; i<sourceCount-2; i++) {
+          if (i % 2) index.push(source[i], source[i+2], source[i+1]);
+          else index.push(source[i], source[i+1], source[i+2]);
+        }
+        break;
+      case 6: // triangle fan
+        for (let i=0; i<sourceCount-2; i++) index.push(source[i+1], source[i+2], source[0]);
+        break;
+      default:
+        throw new Error(`Unsupported primitive mode ${mode}`);
+    }
+    const indexMap = MeshUtils.packIndices(index, vertexCount);
+    output.index = indexMap.buffer;
+    output.indexCount = index.length;
+    output.indexType = indexMap instanceof Uint32Array ? 'uint32' : 'uint16';
+    return nAccessIdx === -1 ? this.generateGltfNormals(output) : output;
+  }
+  // generate normals for primitive without NORMAL attribute
+  private static generateGltfNormals(shape: GltfPrimitiveShape): GltfPrimitiveShape {
+    if (shape.topology !== 'triangle-list') return shape;
+    // gltf spec asks for flat normals (ignoring tangents), but skinned/morphed vertices can't be split
+    if (!shape.joints && !shape.morphTargets) {
+      return { ...shape, ...MeshUtils.computeBufferNormals(shape, { mode: 'flat' }), tangents: undefined };
+    }
+    const { normals } = MeshUtils.computeBufferNormals(shape, { mode: 'smooth' });
+    return { ...shape, normals, tangents: undefined };
+  }
+  // read gltf accessor as tightly packed float data
+  private static readGltfAccessor(data: GltfData, buffers: Array<ArrayBuffer | Error>, accessorIdx: number): Float32Array {
+    const accessor = data.accessors[accessorIdx];
+    if (!accessor) throw new Error(`Could not find accessor ${accessorIdx}`);
+    const components = GLTF_TYPE_SIZES[accessor.type];
+    if (!components || !GLTF_COMPONENT_SIZES[accessor.componentType]) {
+      throw new Error(`Unsupported accessor format ${accessor.type}/${accessor.componentType}`);
     }
+    const normalized = accessor.normalized ?? false;
+    // accessors without buffer view are initialized to zeros
+    const output = accessor.bufferView === undefined
+      ? new Float32Array(accessor.count * components)
+      : this.readGltfElements(
+        data, buffers, accessorIdx, accessor.bufferView, accessor.byteOffset ?? 0,
+        accessor.count, accessor.type, accessor.componentType, normalized
+      );
 
+    // substitute sparse values
+    if (accessor.sparse) {
+      const { count, indices, values } = accessor.sparse;
+      const targets = this.readGltfElements(
+        data, buffers, accessorIdx, indices.bufferView, indices.byteOffset ?? 0,
+        count, "SCALAR", indices.componentType, false
+      );
+      const sparseValues = this.readGltfElements(
+        data, buffers, accessorIdx, values.bufferView, values.byteOffset ?? 0,
+        count, accessor.type, accessor.componentType, normalized
+      );
+      targets.forEach((target, i) => {
+        if (target >= accessor.count) throw new Error(`Sparse index ${target} out of range in accessor ${accessorIdx}`);
+        output.set(sparseValues.subarray(i * components, i * components + components), target * components);
+      });
+    }
     return output;
   }
+  // read elements from gltf buffer view as tightly packed float data
+  private static readGltfElements(
+    data: GltfData,
+    buffers: Array<ArrayBuffer | Error>,
+    accessorIdx: number,
+    bufferView: number,
+    byteOffset: number,
+    count: number,
+    type: string,
+    componentType: number,
+    normalized: boolean
+  ): Float32Array {
+    const components = GLTF_TYPE_SIZES[type];
+    const componentSize = GLTF_COMPONENT_SIZES[componentType];
+    if (!components || !componentSize) {
+      throw new Error(`Unsupported accessor format ${type}/${componentType}`);
+    }
+    const output = new Float32Array(count * components);
+    const view = data.bufferViews[bufferView];
+    if (!view) throw new Error(`Could not find buffer view ${bufferView}`);
+    const buffer = buffers[view.buffer];
+    if (!buffer) throw new Error("tried to access non-existant buffer");
+    if (buffer instanceof Error) throw buffer;
+
+    // matrix columns are padded to 4 byte boundaries
+    const isMatrix = type.startsWith("MAT");
+    const rows = isMatrix ? Math.sqrt(components) : components;
+    const columns = components / rows;
+    const columnSize = isMatrix ? Math.ceil(rows * componentSize / 4) * 4 : rows * componentSize;
+    const elementSize = columnSize * columns;
+    const stride = view.byteStride || elementSize;
+    const start = (view.byteOffset ?? 0) + byteOffset;
+    if (count > 0 && start + stride * (count - 1) + elementSize > buffer.byteLength) {
+      throw new Error(`Accessor ${accessorIdx} exceeds buffer length`);
+    }
+
+    // de-interleave and convert components to float
+    const dv = new DataView(buffer);
+    for (let i=0; i<count; i++) {
+      for (let c=0; c<columns; c++) {
+        for (let r=0; r<rows; r++) {
+          const offset = start + i * stride + c * columnSize + r * componentSize;
+          const value = this.readGltfComponent(dv, offset, componentType, normalized);
+          output[i * components + c * rows + r] = value;
+        }
+      }
+    }
+    return output;
+  }
+  // read gltf index accessor, widening uint8 indices to uint16
+  // note: uint16 output is padded to an even length
+  private static readGltfIndices(data: GltfData, buffers: Array<ArrayBuffer | Error>, accessorIdx: number): Uint16Array | Uint32Array {
+    const accessor = data.accessors[accessorIdx];
+    if (!accessor) throw new Error(`Could not find accessor ${accessorIdx}`);
+    const values = this.readGltfAccessor(data, buffers, accessorIdx);
+    // uint32 accessors keep uint32 indices
+    return MeshUtils.packIndices(values, accessor.componentType === 5125 ? Infinity : 0);
+  }
+  // readGltfAccessor helper
+  private static readGltfComponent(dv: DataView, offset: number, componentType: number, normalized: boolean): number {
+    switch (componentType) {
+      case 5120: {
+        const v = dv.getInt8(offset);
+        return normalized ? Math.max(v / 127, -1) : v;
+      }
+      case 5121: {
+        const v = dv.getUint8(offset);
+        return normalized ? v / 255 : v;
+      }
+      case 5122: {
+        const v = dv.getInt16(offset, true);
+        return normalized ? Math.max(v / 32767, -1) : v;
+      }
+      case 5123: {
+        const v = dv.getUint16(offset, true);
+        return normalized ? v / 65535 : v;
+      }
+      case 5125:
+        return dv.getUint32(offset, true);
+      case 5126:
+        return dv.getFloat32(offset, true);
+      default:
+        throw new Error(`Unsupported component type ${componentType}`);
+    }
+  }
+  // resolve gltf buffer from parsed buffer data, or from its uri
+  private static async resolveGltfBuffer(
+    data: GltfData,
+    buffer: number,
+    options: string | GltfLoadOptions
+  ): Promise<ArrayBuffer> {
+    const parsed = data.bufferData?.[buffer];
+    if (parsed) return parsed;
+    return this.resolveGltfUri(data, data.buffers[buffer]?.uri, options);
+  }
+  // resolve gltf resource from glb chunk, data uri, in-memory map, resolver or url
+  private static async resolveGltfUri(
+    data: GltfData,
+    uri: string | undefined,
+    options: string | GltfLoadOptions
+  ): Promise<ArrayBuffer> {
+    const opts: GltfLoadOptions = typeof options === 'string' ? { baseUrl: options } : options;
+    // resource without uri refers to glb binary chunk
+    if (uri === undefined) {
+      if (!data.binaryChunk) throw new Error("Could not find glb binary chunk");
+      return data.binaryChunk;
+    }
+    if (uri.startsWith("data:")) return this.decodeDataUri(uri);
+    // check in-memory resources
+    if (opts.uriMap) {
+      const mapped = opts.uriMap instanceof Map ? opts.uriMap.get(uri) : opts.uriMap[uri];
+      if (mapped) return mapped;
+    }
+    if (opts.resolver) {
+      const resolved = await opts.resolver(uri);
+      if (resolved) return resolved;
+    }
+    const res = await fetch((opts.baseUrl ?? "") + "/" + uri);
+    if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+    return res.arrayBuffer();
+  }
+  // resolveGltfUri helper
+  private static decodeDataUri(uri: string): ArrayBuffer {
+    const split = uri.indexOf(",");
+    if (split === -1) throw new Error("Invalid data uri");
+    const header = uri.substring(0, split);
+    const body = uri.substring(split + 1);
+    if (header.endsWith(";base64")) {
+      const raw = atob(body);
+      const bytes = new Uint8Array(raw.length);
+      for (let i=0; i<raw.length; i++) bytes[i] = raw.charCodeAt(i);
+      return bytes.buffer;
+    }
+    // percent-encoded data, escapes are bytes and other characters are utf-8
+    const encoder = new TextEncoder();
+    const bytes: Array<number> = [];
+    let literalStart = 0;
+    const pushLiteral = (end: number) => {
+      for (const b of encoder.encode(body.substring(literalStart, end))) bytes.push(b);
+    };
+    for (let i=0; i<body.length; i++) {
+      if (body[i] === "%" && /^[0-9a-fA-F]{2}$/.test(body.substring(i + 1, i + 3))) {
+        pushLiteral(i);
+        bytes.push(parseInt(body.substring(i + 1, i + 3), 16));
+        i += 2;
+        literalStart = i + 1;
+      }
+    }
+    pushLiteral(body.length);
+    return new Uint8Array(bytes).buffer;
+  }
 }
 
 export default ModelLoader;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import type { Shape } from './index';
+import type { Shape, Heightmap } from './index';
 
 /**
  * Helper for building common shapes
@@ -448,9 +448,265 @@ class Primitives {
 
     return { vertices, uvs, normals, index };
   }
-  // static torus() {
-  //   // todo
-  // }
+  // plane on xz axis facing up, split into segments (uv v = 1 at -z)
+  static plane(width:number, depth:number, widthSegments:number = 1, depthSegments:number = 1): Shape {
+    return this.terrain(width, depth, widthSegments, depthSegments, () => 0);
+  }
+  // plane displaced by heightmap image (red channel, scaled by maxHeight) or height function of x/z
+  // heightmap image rows run from -z to +z, matching the plane uvs
+  static terrain(
+    width:number,
+    depth:number,
+    widthSegments:number,
+    depthSegments:number,
+    heightmap:Heightmap | ((x: number, z: number) => number),
+    maxHeight:number = 1
+  ): Shape {
+    if (widthSegments < 1 || depthSegments < 1) throw new Error("Segments count must be greater than 0");
+    const vertices: Array<[number, number, number]> = [];
+    const uvs: Array<[number, number]> = [];
+    const normals: Array<[number, number, number]> = [];
+    const index: Array<number> = [];
+    const w = width/2;
+    const d = depth/2;
+    // sample heightmap with bilinear filtering
+    const sample = (x: number, z: number, u: number, v: number): number => {
+      if (typeof heightmap === 'function') return heightmap(x, z);
+      if (heightmap.width < 1 || heightmap.height < 1) throw new Error("Heightmap is empty");
+      const px = u * (heightmap.width - 1);
+      const py = (1 - v) * (heightmap.height - 1);
+      const x0 = Math.floor(px), y0 = Math.floor(py);
+      const x1 = Math.min(x0 + 1, heightmap.width - 1), y1 = Math.min(y0 + 1, heightmap.height - 1);
+      const texel = (tx: number, ty: number) => heightmap.data[(ty * heightmap.width + tx) * 4] / 255;
+      const top = texel(x0, y0) + (texel(x1, y0) - texel(x0, y0)) * (px - x0);
+      const bottom = texel(x0, y1) + (texel(x1, y1) - texel(x0, y1)) * (px - x0);
+      return (top + (bottom - top) * (py - y0)) * maxHeight;
+    };
+    // generate points per row
+    for (let j=0; j<depthSegments+1; j++) {
+      const v = 1 - j/depthSegments;
+      const z = -d + depth * j/depthSegments;
+      for (let i=0; i<widthSegments+1; i++) {
+        const u = i/widthSegments;
+        const x = -w + width * u;
+        vertices.push([x, sample(x, z, u, v), z]);
+        uvs.push([u, v]);
+      }
+    }
+    // normals from height differences of neighbouring points
+    const cols = widthSegments + 1;
+    const point = (i: number, j: number) => {
+      const c = Math.min(Math.max(i, 0), widthSegments);
+      const r = Math.min(Math.max(j, 0), depthSegments);
+      return vertices[r * cols + c];
+    };
+    for (let j=0; j<depthSegments+1; j++) {
+      for (let i=0; i<widthSegments+1; i++) {
+        const left = point(i - 1, j), right = point(i + 1, j);
+        const back = point(i, j - 1), front = point(i, j + 1);
+        const dx = (right[1] - left[1]) / (right[0] - left[0]);
+        const dz = (front[1] - back[1]) / (front[2] - back[2]);
+        const l = Math.hypot(dx, 1, dz);
+        normals.push([0 - dx / l, 1 / l, 0 - dz / l]);
+      }
+    }
+    // generate row indices
+    for (let j=0; j<depthSegments; j++) {
+      for (let i=0; i<widthSegments; i++) {
+        const i0 = j * cols + i;
+        const i1 = i0 + 1;
+        const i2 = i0 + cols + 1;
+        const i3 = i0 + cols;
+        index.push(i0, i3, i2, i2, i1, i0);
+      }
+    }
+
+    return { vertices, uvs, normals, index };
+  }
+  // sphere from subdivided icosahedron, with evenly sized triangles
+  // uvs are equirectangular (wrapping around y axis, duplicating seam vertices) or planar (top down, like sphere)
+  static icosphere(
+    radius:number,
+    subdivisions:number,
+    projection:'equirectangular' | 'planar' = 'equirectangular'
+  ): Shape {
+    if (subdivisions < 0) throw new Error("Subdivisions count must not be negative");
+    const t = (1 + Math.sqrt(5)) / 2;
+    const points: Array<[number, number, number]> = [
+      [-1, t, 0], [1, t, 0], [-1, -t, 0], [1, -t, 0],
+      [0, -1, t], [0, 1, t], [0, -1, -t], [0, 1, -t],
+      [t, 0, -1], [t, 0, 1], [-t, 0, -1], [-t, 0, 1],
+    ].map(p => {
+      const l = Math.hypot(p[0], p[1], p[2]);
+      return [p[0] / l, p[1] / l, p[2] / l];
+    });
+    let faces: Array<number> = [
+      0, 11, 5, 0, 5, 1, 0, 1, 7, 0, 7, 10, 0, 10, 11,
+      1, 5, 9, 5, 11, 4, 11, 10, 2, 10, 7, 6, 7, 1, 8,
+      3, 9, 4, 3, 4, 2, 3, 2, 6, 3, 6, 8, 3, 8, 9,
+      4, 9, 5, 2, 4, 11, 6, 2, 10, 8, 6, 7, 9, 8, 1,
+    ];
+    // split each face into 4, pushing new points onto the sphere
+    for (let s=0; s<subdivisions; s++) {
+      const midpoints: Map<string, number> = new Map();
+      const midpoint = (a: number, b: number): number => {
+        const key = a < b ? `${a},${b}` : `${b},${a}`;
+        const cached = midpoints.get(key);
+        if (cached !== undefined) return cached;
+        const p = [0, 1, 2].map(i => (points[a][i] + points[b][i]) / 2);
+        const l = Math.hypot(p[0], p[1], p[2]);
+        points.push([p[0] / l, p[1] / l, p[2] / l]);
+        midpoints.set(key, points.length - 1);
+        return points.length - 1;
+      };
+      const next: Array<number> = [];
+      for (let i=0; i<faces.length; i+=3) {
+        const [a, b, c] = [faces[i], faces[i + 1], faces[i + 2]];
+        const ab = midpoint(a, b), bc = midpoint(b, c), ca = midpoint(c, a);
+        next.push(a, ab, ca, ab, b, bc, ca, bc, c, ab, bc, ca);
+      }
+      faces = next;
+    }
+    const vertices: Array<[number, number, number]> = [];
+    const uvs: Array<[number, number]> = [];
+    const normals: Array<[number, number, number]> = [];
+    const index: Array<number> = [];
+    const addPoint = (p: [number, number, number], u: [number, number]): number => {
+      vertices.push([p[0] * radius, p[1] * radius, p[2] * radius]);
+      uvs.push(u);
+      normals.push(p);
+      return vertices.length - 1;
+    };
+    if (projection === 'planar') {
+      points.forEach(p => addPoint(p, [(1 + p[0])/2, (1 + p[2])/2]));
+      index.push(...faces);
+      return { vertices, uvs, normals, index };
+    }
+    // equirectangular mapping, with v = 1 at the top
+    const mapped = points.map(p => {
+      let u = Math.atan2(p[2], p[0]) / (2 * Math.PI);
+      if (u < 0) u += 1;
+      return [u, 1 - Math.acos(Math.min(Math.max(p[1], -1), 1)) / Math.PI];
+    });
+    const isPole = (p: [number, number, number]) => Math.hypot(p[0], p[2]) < 1e-6;
+    const shared: Map<string, number> = new Map();
+    const vertexFor = (point: number, u: number): number => {
+      const key = `${point},${u}`;
+      let id = shared.get(key);
+      if (id === undefined) {
+        id = addPoint(points[point], [u, mapped[point][1]]);
+        shared.set(key, id);
+      }
+      return id;
+    };
+    for (let i=0; i<faces.length; i+=3) {
+      const face = [faces[i], faces[i + 1], faces[i + 2]];
+      const u = face.map(f => mapped[f][0]);
+      const poles = face.map(f => isPole(points[f]));
+      const edge = u.filter((_, k) => !poles[k]);
+      // faces crossing the seam wrap around past u = 1
+      if (Math.max(...edge) - Math.min(...edge) > 0.5) {
+        for (let k=0; k<3; k++) if (u[k] < 0.5 && !poles[k]) u[k] += 1;
+      }
+      // poles take the u of the rest of their face
+      for (let k=0; k<3; k++) {
+        if (poles[k]) u[k] = (u[(k + 1) % 3] + u[(k + 2) % 3]) / 2;
+      }
+      index.push(...face.map((f, k) => vertexFor(f, u[k])));
+    }
+
+    return { vertices, uvs, normals, index };
+  }
+  // torus around y axis, with sides around the ring and slices around the tube
+  static torus(radius:number, tubeRadius:number, sides:number, slices:number): Shape {
+    if (sides < 3) throw new Error("Sides count must be greater than 2");
+    if (slices < 3) throw new Error("Slices count must be greater than 2");
+    const vertices: Array<[number, number, number]> = [];
+    const uvs: Array<[number, number]> = [];
+    const normals: Array<[number, number, number]> = [];
+    const index: Array<number> = [];
+    // generate points per slice (first and last slice/side are duplicated for the uv seams)
+    for (let j=0; j<slices+1; j++) {
+      const phi = 2 * Math.PI * j / slices;
+      for (let i=0; i<sides+1; i++) {
+        const theta = 2 * Math.PI * i / sides;
+        const x = Math.cos(phi) * Math.cos(theta);
+        const y = Math.sin(phi);
+        const z = Math.cos(phi) * Math.sin(theta);
+        const p: [number, number, number] = [
+          Math.cos(theta) * radius + x * tubeRadius,
+          y * tubeRadius,
+          Math.sin(theta) * radius + z * tubeRadius,
+        ];
+        const u: [number, number] = [i/sides, j/slices];
+        // add points
+        vertices.push(p);
+        uvs.push(u);
+        normals.push([x,y,z]);
+      }
+    }
+    // generate slice indices
+    for (let j=0; j<slices; j++) {
+      const j0 = j * (sides + 1);
+      const j1 = (j + 1) * (sides + 1);
+      for (let i=0; i<sides; i++) {
+        const i0 = j0 + i;
+        const i1 = j0 + i + 1;
+        const i2 = j1 + i + 1;
+        const i3 = j1 + i;
+        index.push(i0, i2, i1, i2, i0, i3);
+      }
+    }
+
+    return { vertices, uvs, normals, index };
+  }
+  // capsule around y axis, where height is the cylinder body (total height is height + 2 * radius)
+  static capsule(radius:number, height:number, sides:number, slices:number): Shape {
+    if (sides < 3) throw new Error("Sides count must be greater than 2");
+    if (slices < 1) throw new Error("Slices count must be greater than 0");
+    const vertices: Array<[number, number, number]> = [];
+    const uvs: Array<[number, number]> = [];
+    const normals: Array<[number, number, number]> = [];
+    const index: Array<number> = [];
+    const h = height/2;
+    // v is mapped by distance along the outline, from bottom to top
+    const length = Math.PI * radius + height;
+    // generate points per slice, top cap then bottom cap (slices per cap)
+    const rows = 2 * (slices + 1);
+    for (let j=0; j<rows; j++) {
+      const top = j <= slices;
+      const phi = top ? Math.PI * j / (2 * slices) : Math.PI * (j - 1) / (2 * slices);
+      const offset = top ? h : -h;
+      const arc = top ? phi * radius : phi * radius + height;
+      for (let i=0; i<sides+1; i++) {
+        const theta = 2 * Math.PI * i / sides;
+        const x = Math.sin(phi) * Math.cos(theta);
+        const y = Math.cos(phi);
+        const z = Math.sin(phi) * Math.sin(theta);
+        const p: [number, number, number] = [x * radius, y * radius + offset, z * radius];
+        const u: [number, number] = [i/sides, 1 - arc / length];
+        // add points
+        vertices.push(p);
+        uvs.push(u);
+        normals.push([x,y,z]);
+      }
+    }
+    // generate slice indices (skipping degenerate triangles at the poles)
+    for (let j=0; j<rows-1; j++) {
+      const j0 = j * (sides + 1);
+      const j1 = (j + 1) * (sides + 1);
+      for (let i=0; i<sides; i++) {
+        const i0 = j0 + i;
+        const i1 = j0 + i + 1;
+        const i2 = j1 + i + 1;
+        const i3 = j1 + i;
+        if (j > 0) index.push(i0, i1, i2);
+        if (j < rows - 2) index.push(i2, i3, i0);
+      }
+    }
+
+    return { vertices, uvs, normals, index };
+  }
 }
 
 export default Primitives;
\ No newline at end of file
@@ -1,7 +1,7 @@
 // note: unable to import webgpu types using tsconfig in subfolder
 /// <reference path="../node_modules/@webgpu/types/dist/index.d.ts" />
 
-import { Mat4 } from "./index";
+import { Mat4, MeshUtils } from "./index";
 import type {
   RenderObject,
   RenderBindGroup,
@@ -11,6 +11,8 @@ import type {
   CameraOptions,
   PipelineOptions,
   UniformDescription,
+  MorphTarget,
+  Bounds,
 } from './index';
 
 /**
@@ -153,11 +155,18 @@ class Renderer {
    * 
    * @param {number} width 
    * @param {number} height 
-   * @param {string} url 
+   * @param {string | ImageBitmap} source image url or decoded image
    * @param {boolean} canvasFormat use rgb8 format or native canvas format
+   * @param {boolean} flipY flip image vertically on upload (defaults to true)
    * @returns {Promise<number>}
    */
-  async addTexture(width: number, height: number, url?: string, canvasFormat?: boolean): Promise<number> {
+  async addTexture(
+    width: number,
+    height: number,
+    source?: string | ImageBitmap,
+    canvasFormat?: boolean,
+    flipY: boolean = true
+  ): Promise<number> {
     const id = this.textures.length;
     const texture: GPUTexture = this.#device.createTexture({
       label: `texture-cache-${id}`,
@@ -165,12 +174,17 @@ class Renderer {
       size: [width, height],
       usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
     });
-    // load image from url if provided
-    if (url) {
-      const blob = await fetch(url).then(x => x.blob());
-      const bitmap: ImageBitmap = await createImageBitmap(blob, { colorSpaceConversion: 'none' });
+    // load image from source if provided
+    if (source) {
+      let bitmap: ImageBitmap;
+      if (typeof source === 'string') {
+        const blob = await fetch(source).then(x => x.blob());
+        bitmap = await createImageBitmap(blob, { colorSpaceConversion: 'none' });
+      } else {
+        bitmap = source;
+      }
       this.#device.queue.copyExternalImageToTexture(
-        { source: bitmap, flipY: true },
+        { source: bitmap, flipY },
         { texture: texture },
         { width: bitmap.width, height: bitmap.height }
       );
@@ -220,7 +234,7 @@ class Renderer {
     // update bind group
     const pipeline = this.pipelines[pipelineId];
     if (!pipeline) throw new Error(`Could not find pipeline ${pipelineId}`);
-    const newGroup = this.addBindGroup0(pipeline.pipe, pipeline.maxObjCount, texture);
+    const newGroup = this.addBindGroup0(pipeline.pipe, pipeline.maxObjCount, texture, undefined, pipeline.maxJoints);
     pipeline.bindGroup0 = newGroup;
   }
   /**
@@ -280,8 +294,13 @@ class Renderer {
    * @param {number} options.texture1Id texture must be added to cache, then referenced here
    * @param {number} options.texture2Id second texture reference if necessary
    * @param {GPUCullMode} options.cullMode ['front','back','none'] affects transparency
+   * @param {GPUPrimitiveTopology} options.topology ['triangle-list','line-list','point-list']
    * @param {string} options.vertexFunction name for vertex function
    * @param {string} options.fragmentFunction name for fragment function
+   * @param {boolean} options.skinned adds joint/weight vertex buffers and joint matrices to bind group 0
+   * @param {number} options.maxJoints max joints per skinned object (defaults to 64)
+   * @param {boolean} options.vertexColors adds a color vertex buffer (float32x4 at location 5)
+   * @param {boolean} options.tangents adds a tangent vertex buffer (float32x4 at location 6)
    * @param {Array<UniformDescription>} options.uniforms additional uniforms from user
    * @returns {number} pipeline id (required for creating render objects)
    */
@@ -292,31 +311,40 @@ class Renderer {
       code: shader
     });
     // create pipeline
+    const maxJoints = options?.skinned ? (options.maxJoints ?? 64) : undefined;
     const bindGroups = [];
+    const bind0Entries: Array<GPUBindGroupLayoutEntry> = [
+      { // mvp matrix
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX,
+        buffer: { hasDynamicOffset:true }
+      },
+      { // texture sampler
+        binding: 1,
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: { type:'filtering' }
+      },
+      { // texture 1
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: {}
+      },
+      { // texture 2
+        binding: 3,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: {}
+      },
+    ];
+    if (maxJoints) {
+      bind0Entries.push({ // joint matrices
+        binding: 4,
+        visibility: GPUShaderStage.VERTEX,
+        buffer: { type: 'read-only-storage', hasDynamicOffset: true }
+      });
+    }
     const bindGroup0Layout: GPUBindGroupLayout = this.#device.createBindGroupLayout({
       label: "bind-group-0-layout",
-      entries: [
-        { // mvp matrix
-          binding: 0,
-          visibility: GPUShaderStage.VERTEX,
-          buffer: { hasDynamicOffset:true }
-        },
-        { // texture sampler
-          binding: 1,
-          visibility: GPUShaderStage.FRAGMENT,
-          sampler: { type:'filtering' }
-        },
-        { // texture 1
-          binding: 2,
-          visibility: GPUShaderStage.FRAGMENT,
-          texture: {}
-        },
-        { // texture 2
-          binding: 3,
-          visibility: GPUShaderStage.FRAGMENT,
-          texture: {}
-        },
-      ]
+      entries: bind0Entries
     });
     bindGroups.push(bindGroup0Layout);
     // create custom uniform bind group
@@ -343,6 +371,44 @@ class Renderer {
       label: "render-pipeline-layout",
       bindGroupLayouts: bindGroups
     });
+    const vertexBuffers: Array<GPUVertexBufferLayout> = [
+      { // position
+        arrayStride: 12,
+        attributes: [{ shaderLocation: 0, format: "float32x3", offset: 0 }]
+      },
+      { // uv coords
+        arrayStride: 8,
+        attributes: [{ shaderLocation: 1, format: "float32x2", offset: 0 }]
+      },
+      { // normal
+        arrayStride: 12,
+        attributes: [{ shaderLocation: 2, format: "float32x3", offset: 0 }]
+      },
+    ];
+    if (maxJoints) {
+      vertexBuffers.push(
+        { // joint indices
+          arrayStride: 16,
+          attributes: [{ shaderLocation: 3, format: "uint32x4", offset: 0 }]
+        },
+        { // joint weights
+          arrayStride: 16,
+          attributes: [{ shaderLocation: 4, format: "float32x4", offset: 0 }]
+        },
+      );
+    }
+    if (options?.vertexColors) {
+      vertexBuffers.push({ // vertex colors
+        arrayStride: 16,
+        attributes: [{ shaderLocation: 5, format: "float32x4", offset: 0 }]
+      });
+    }
+    if (options?.tangents) {
+      vertexBuffers.push({ // tangents
+        arrayStride: 16,
+        attributes: [{ shaderLocation: 6, format: "float32x4", offset: 0 }]
+      });
+    }
     const blendMode: GPUBlendComponent = {
       srcFactor: 'src-alpha',
       dstFactor: 'one-minus-src-alpha',
@@ -353,20 +419,7 @@ class Renderer {
       vertex: {
         module: shaderModule,
         entryPoint: options?.vertexFunction ?? "vertexMain",
-        buffers: [
-          { // position
-            arrayStride: 12,
-            attributes: [{ shaderLocation: 0, format: "float32x3", offset: 0 }]
-          },
-          { // uv coords
-            arrayStride: 8,
-            attributes: [{ shaderLocation: 1, format: "float32x2", offset: 0 }]
-          },
-          { // normal
-            arrayStride: 12,
-            attributes: [{ shaderLocation: 2, format: "float32x3", offset: 0 }]
-          },
-        ]
+        buffers: vertexBuffers
       },
       fragment: {
         module: shaderModule,
@@ -382,6 +435,7 @@ class Renderer {
         depthCompare: 'less-equal',
       },
       primitive: {
+        topology: options?.topology ?? 'triangle-list',
         cullMode: options?.cullMode ? options.cullMode : 'none'
       }
     });
@@ -389,13 +443,16 @@ class Renderer {
     let tx1, tx2;
     if (options && typeof options.texture1Id === 'number') tx1 = this.textures[options.texture1Id];
     if (options && typeof options.texture2Id === 'number') tx2 = this.textures[options.texture2Id];
-    const bindGroup0 = this.addBindGroup0(pipeline, maxObjCount, tx1, tx2);
+    const bindGroup0 = this.addBindGroup0(pipeline, maxObjCount, tx1, tx2, maxJoints);
     const bindGroup1 = options?.uniforms ? this.addBindGroup1(pipeline, maxObjCount, options.uniforms) : undefined;
     // add to cache
     const pipe: RenderPipeline = {
       pipe: pipeline,
       objects: [],
       maxObjCount,
+      maxJoints,
+      vertexColors: options?.vertexColors,
+      tangents: options?.tangents,
       bindGroup0,
       bindGroup1,
     };
@@ -403,7 +460,13 @@ class Renderer {
     return (this.pipelines.length - 1);
   }
   // create default bind group
-  addBindGroup0(pipeline: GPURenderPipeline, maxObjCount:number, texture1?:GPUTexture, texture2?:GPUTexture): RenderBindGroup {
+  addBindGroup0(
+    pipeline: GPURenderPipeline,
+    maxObjCount:number,
+    texture1?:GPUTexture,
+    texture2?:GPUTexture,
+    maxJoints?:number
+  ): RenderBindGroup {
     // create uniform buffers
     const minStrideSize: number = this.limits.minUniformBufferOffsetAlignment;
     const mvpBuffer: GPUBuffer = this.#device.createBuffer({
@@ -443,22 +506,40 @@ class Renderer {
     });
     // create bind group
     const mvpSize: number = 4 * 4 * 4 * 3; // mat4 32bit/4byte floats
+    const entries: Array<GPUBindGroupEntry> = [
+      {binding: 0, resource: { buffer: mvpBuffer, size: mvpSize }},
+      {binding: 1, resource: sampler},
+      {binding: 2, resource: texture1.createView()},
+      {binding: 3, resource: texture2.createView()},
+    ];
+    const buffers: Array<GPUBuffer> = [mvpBuffer];
+    // create joint matrix storage buffer
+    if (maxJoints) {
+      const jointStride = this.#jointStride(maxJoints);
+      const jointBuffer: GPUBuffer = this.#device.createBuffer({
+        label: "joint-matrix-storage",
+        size: jointStride * maxObjCount,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+      });
+      entries.push({binding: 4, resource: { buffer: jointBuffer, size: maxJoints * 64 }});
+      buffers.push(jointBuffer);
+    }
     const bindGroup: GPUBindGroup = this.#device.createBindGroup({
       label: "bind-group-0",
       layout: pipeline.getBindGroupLayout(0),
-      entries: [
-        {binding: 0, resource: { buffer: mvpBuffer, size: mvpSize }},
-        {binding: 1, resource: sampler},
-        {binding: 2, resource: texture1.createView()},
-        {binding: 3, resource: texture2.createView()},
-      ]
+      entries
     });
     const out: RenderBindGroup = {
       base: bindGroup,
-      entries: [mvpBuffer],
+      entries: buffers,
     }
     return out;
   }
+  // size of joint matrices per object, aligned to storage buffer offsets
+  #jointStride(maxJoints: number): number {
+    const align = this.limits.minStorageBufferOffsetAlignment;
+    return Math.ceil(maxJoints * 64 / align) * align;
+  }
   // create custom bind group
   addBindGroup1(pipeline: GPURenderPipeline, maxObjCount:number, uniforms:Array<UniformDescription>): RenderBindGroup {
     // create uniform buffers
@@ -580,10 +661,7 @@ class Renderer {
     // create index buffer
     let indexBuffer: GPUBuffer | undefined;
     if (indices && indices.length > 0) {
-      const indexMap = new Uint32Array(indices.length);
-      for (let i=0; i<indices.length; i++) {
-        indexMap[i] = indices[i];
-      }
+      const indexMap = MeshUtils.packIndices(indices, vlen);
       indexBuffer = this.#device.createBuffer({
         label: "index-buffer",
         size: indexMap.byteLength,
@@ -603,8 +681,9 @@ class Renderer {
       pipelineIndex: id,
       indexBuffer,
       indexCount: indices?.length,
-      indexType: 'uint32',
+      indexType: MeshUtils.indexFormat(vlen),
       instances: instances || 1,
+      bounds: MeshUtils.computeBounds(vertices),
     }
     pipe.objects.push(obj);
     this.updateObject({ pipelineId, objectId:id });
@@ -621,6 +700,7 @@ class Renderer {
    * @param {ArrayBuffer} indices indexing of vertices to render
    * @param {number} indexCount
    * @param {number} instances number of instances of object to render
+   * @param {GPUIndexFormat} indexType format of index buffer (defaults to uint16)
    * @returns {number} objectId
    */
   addObjectAsBuffers(
@@ -632,6 +712,7 @@ class Renderer {
     indices?: ArrayBuffer,
     indexCount?: number,
     instances?: number,
+    indexType?: GPUIndexFormat,
   ) {
     if (!this.#device) throw new Error("Renderer not initialized");
     // create vertex buffer
@@ -662,12 +743,19 @@ class Renderer {
     // create index buffer
     let indexBuffer: GPUBuffer | undefined;
     if (indices && indexCount && indices.byteLength > 0) {
+      // buffer writes must be a multiple of 4 bytes
+      let indexMap = indices;
+      if (indices.byteLength % 4 !== 0) {
+        const padded = new Uint8Array(Math.ceil(indices.byteLength / 4) * 4);
+        padded.set(new Uint8Array(indices));
+        indexMap = padded.buffer;
+      }
       indexBuffer = this.#device.createBuffer({
         label: "index-buffer",
-        size: indices.byteLength,
+        size: indexMap.byteLength,
         usage: GPUBufferUsage.INDEX | GPUBufferUsage.COPY_DST,
       });
-      this.#device.queue.writeBuffer(indexBuffer, 0, indices);
+      this.#device.queue.writeBuffer(indexBuffer, 0, indexMap);
     }
     // save to cache
     const pipe = this.pipelines[pipelineId];
@@ -681,13 +769,156 @@ class Renderer {
       pipelineIndex: id,
       indexBuffer,
       indexCount,
-      indexType: 'uint16',
+      indexType: indexType ?? 'uint16',
       instances: instances || 1,
+      bounds: MeshUtils.computeBounds(verts, vertCount),
     }
     pipe.objects.push(obj);
     this.updateObject({ pipelineId, objectId:id });
     return id;
   }
+  /**
+   * Add skinning attributes to an existing object in a skinned pipeline
+   * 
+   * @param {number} pipelineId
+   * @param {number} objectId
+   * @param {ArrayBuffer} joints joint indices (uint32x4 per vertex)
+   * @param {ArrayBuffer} weights joint weights (float32x4 per vertex)
+   */
+  addObjectSkin(pipelineId: number, objectId: number, joints: ArrayBuffer, weights: ArrayBuffer) {
+    if (!this.#device) throw new Error("Renderer not initialized");
+    const pipe = this.pipelines[pipelineId];
+    if (!pipe) throw new Error(`Could not find pipeline ${pipelineId}`);
+    if (!pipe.maxJoints) throw new Error(`Pipeline ${pipelineId} is not skinned`);
+    const obj = pipe.objects[objectId];
+    if (!obj) throw new Error(`Could not find object ${objectId}`);
+    // create joint buffer
+    const jointBuffer: GPUBuffer = this.#device.createBuffer({
+      label: "joint-buffer",
+      size: joints.byteLength,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+    });
+    this.#device.queue.writeBuffer(jointBuffer, 0, joints);
+    // create weight buffer
+    const weightBuffer: GPUBuffer = this.#device.createBuffer({
+      label: "weight-buffer",
+      size: weights.byteLength,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+    });
+    this.#device.queue.writeBuffer(weightBuffer, 0, weights);
+    obj.jointBuffer?.destroy();
+    obj.weightBuffer?.destroy();
+    obj.jointBuffer = jointBuffer;
+    obj.weightBuffer = weightBuffer;
+  }
+  /**
+   * Add vertex colors to an existing object in a pipeline with vertex colors
+   * 
+   * @param {number} pipelineId
+   * @param {number} objectId
+   * @param {ArrayBuffer} colors rgba colors (float32x4 per vertex)
+   */
+  addObjectColors(pipelineId: number, objectId: number, colors: ArrayBuffer) {
+    if (!this.#device) throw new Error("Renderer not initialized");
+    const pipe = this.pipelines[pipelineId];
+    if (!pipe) throw new Error(`Could not find pipeline ${pipelineId}`);
+    if (!pipe.vertexColors) throw new Error(`Pipeline ${pipelineId} does not use vertex colors`);
+    const obj = pipe.objects[objectId];
+    if (!obj) throw new Error(`Could not find object ${objectId}`);
+    if (colors.byteLength < obj.vertexCount * 16) throw new Error("Color count does not match vertex count");
+    // create color buffer
+    const colorBuffer: GPUBuffer = this.#device.createBuffer({
+      label: "color-buffer",
+      size: colors.byteLength,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+    });
+    this.#device.queue.writeBuffer(colorBuffer, 0, colors);
+    obj.colorBuffer?.destroy();
+    obj.colorBuffer = colorBuffer;
+  }
+  /**
+   * Add tangents to an existing object in a pipeline with tangents
+   * 
+   * @param {number} pipelineId
+   * @param {number} objectId
+   * @param {ArrayBuffer} tangents xyz tangent with bitangent sign in w (float32x4 per vertex)
+   */
+  addObjectTangents(pipelineId: number, objectId: number, tangents: ArrayBuffer) {
+    if (!this.#device) throw new Error("Renderer not initialized");
+    const pipe = this.pipelines[pipelineId];
+    if (!pipe) throw new Error(`Could not find pipeline ${pipelineId}`);
+    if (!pipe.tangents) throw new Error(`Pipeline ${pipelineId} does not use tangents`);
+    const obj = pipe.objects[objectId];
+    if (!obj) throw new Error(`Could not find object ${objectId}`);
+    if (tangents.byteLength < obj.vertexCount * 16) throw new Error("Tangent count does not match vertex count");
+    // create tangent buffer
+    const tangentBuffer: GPUBuffer = this.#device.createBuffer({
+      label: "tangent-buffer",
+      size: tangents.byteLength,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+    });
+    this.#device.queue.writeBuffer(tangentBuffer, 0, tangents);
+    obj.tangentBuffer?.destroy();
+    obj.tangentBuffer = tangentBuffer;
+  }
+  /**
+   * Replace the local bounds of an object (i.e. with precomputed bounds from a gltf file)
+   * 
+   * @param {number} pipelineId
+   * @param {number} objectId
+   * @param {Bounds} bounds
+   */
+  setObjectBounds(pipelineId: number, objectId: number, bounds: Bounds) {
+    const obj = this.pipelines[pipelineId]?.objects[objectId];
+    if (!obj) throw new Error(`Could not find object ${objectId}`);
+    obj.bounds = bounds;
+    obj.worldBounds = obj.model ? MeshUtils.transformBounds(bounds, obj.model) : bounds;
+  }
+  /**
+   * Get bounds of an object, for framing cameras, culling or picking
+   * 
+   * @param {number} pipelineId
+   * @param {number} objectId
+   * @param {boolean} world transform bounds by the model matrix from the last updateObject call
+   * @returns {Bounds | undefined} bounds
+   */
+  getObjectBounds(pipelineId: number, objectId: number, world: boolean = true): Bounds | undefined {
+    const obj = this.pipelines[pipelineId]?.objects[objectId];
+    if (!obj) throw new Error(`Could not find object ${objectId}`);
+    return world ? obj.worldBounds ?? obj.bounds : obj.bounds;
+  }
+  /**
+   * Add morph targets to an existing object, blended on the cpu when morph weights are updated
+   * 
+   * @param {number} pipelineId
+   * @param {number} objectId
+   * @param {ArrayBuffer} verts base vertex positions (float32x3 per vertex)
+   * @param {ArrayBuffer} normals base normals (float32x3 per vertex)
+   * @param {Array<MorphTarget>} targets position/normal deltas per target
+   */
+  addObjectMorphTargets(
+    pipelineId: number,
+    objectId: number,
+    verts: ArrayBuffer,
+    normals: ArrayBuffer,
+    targets: Array<MorphTarget>
+  ) {
+    const pipe = this.pipelines[pipelineId];
+    if (!pipe) throw new Error(`Could not find pipeline ${pipelineId}`);
+    const obj = pipe.objects[objectId];
+    if (!obj) throw new Error(`Could not find object ${objectId}`);
+    if (targets.some(t => t.positions.byteLength !== verts.byteLength)) {
+      throw new Error("Morph target size does not match vertex count");
+    }
+    obj.morph = {
+      vertices: new Float32Array(verts.slice(0)),
+      normals: new Float32Array(normals.slice(0)),
+      targets: targets.map(t => ({
+        positions: new Float32Array(t.positions),
+        normals: t.normals ? new Float32Array(t.normals) : undefined,
+      })),
+    };
+  }
   /**
    * Updates model transforms for object
    * 
@@ -699,10 +930,13 @@ class Renderer {
    * @param {number | undefined} input.rotateDeg
    * @param {[number, number, number] | undefined} input.scale
    * @param {boolean} input.visible
+   * @param {Float32Array | undefined} input.transform additional model matrix (i.e. gltf node world transform)
    * @param {Object} input.camera output from renderer.makeCamera(...)
+   * @param {Float32Array | undefined} input.jointMatrices joint matrices for skinned pipelines
+   * @param {Array<number> | undefined} input.morphWeights weights for morph targets
    */
   updateObject(input: UpdateData) {
-    const { pipelineId, objectId, translate, visible, rotateAxis, rotateDeg, scale, camera } = input;
+    const { pipelineId, objectId, translate, visible, rotateAxis, rotateDeg, scale, transform, camera } = input;
     if (!this.#device) throw new Error("Renderer not initialized");
     const dpipe = this.pipelines[pipelineId];
     if (!dpipe) throw new Error(`Could not find pipeline ${pipelineId}`);
@@ -715,7 +949,10 @@ class Renderer {
     const modelt: Float32Array = Mat4.translate(translate?.[0] || 0, translate?.[1] || 0, translate?.[2] || 0);
     const modelr: Float32Array = Mat4.rotate(rotateAxis || [0,0,1], (rotateDeg || 0) * Math.PI / 180);
     const models: Float32Array = Mat4.scale(scale?.[0] || 1, scale?.[1] || 1, scale?.[2] || 1);
-    const model: Float32Array = Mat4.multiply(modelt, Mat4.multiply(models, modelr));
+    let model: Float32Array = Mat4.multiply(modelt, Mat4.multiply(models, modelr));
+    if (transform) model = Mat4.multiply(model, transform);
+    obj.model = model;
+    if (obj.bounds) obj.worldBounds = MeshUtils.transformBounds(obj.bounds, model);
     // view matrix
     let view: Float32Array = Mat4.identity();
     if (camera) {
@@ -743,6 +980,38 @@ class Renderer {
     }
     const stride = this.limits.minStorageBufferOffsetAlignment;
     this.#device.queue.writeBuffer(dpipe.bindGroup0.entries[0], stride * obj.pipelineIndex, mvp);
+    // update joint matrices
+    if (dpipe.maxJoints && input.jointMatrices) {
+      const jointCount = Math.min(input.jointMatrices.length / 16, dpipe.maxJoints);
+      const jointStride = this.#jointStride(dpipe.maxJoints);
+      const jointData = input.jointMatrices.subarray(0, jointCount * 16);
+      this.#device.queue.writeBuffer(dpipe.bindGroup0.entries[1], jointStride * obj.pipelineIndex, jointData);
+    }
+    // blend morph targets
+    if (obj.morph && input.morphWeights) {
+      const { vertices, normals, targets } = obj.morph;
+      const outVerts = new Float32Array(vertices);
+      const outNormals = new Float32Array(normals);
+      targets.forEach((target, i) => {
+        const w = input.morphWeights?.[i] ?? 0;
+        if (w === 0) return;
+        for (let j=0; j<outVerts.length; j++) outVerts[j] += w * target.positions[j];
+        if (!target.normals || outNormals.length !== outVerts.length) return;
+        for (let j=0; j<outNormals.length; j++) outNormals[j] += w * target.normals[j];
+      });
+      // re-normalize blended normals
+      for (let j=0; j<outNormals.length; j+=3) {
+        const m = Math.hypot(outNormals[j], outNormals[j+1], outNormals[j+2]);
+        if (m <= 0) continue;
+        outNormals[j] /= m;
+        outNormals[j+1] /= m;
+        outNormals[j+2] /= m;
+      }
+      this.#device.queue.writeBuffer(obj.vertexBuffer, 0, outVerts);
+      if (outNormals.byteLength <= obj.normalBuffer.size) {
+        this.#device.queue.writeBuffer(obj.normalBuffer, 0, outNormals);
+      }
+    }
     // update custom uniforms
     if (dpipe.bindGroup1 && input.uniformData) {
       dpipe.bindGroup1.entries.forEach((buffer, i) => {
@@ -800,11 +1069,43 @@ class Renderer {
       pipeline.objects.forEach(obj => {
         if (!obj.visible) return;
         const stride = this.limits.minUniformBufferOffsetAlignment;
+        // objects missing vertex buffers are skipped (warning once)
+        const warnMissing = (message: string) => {
+          if (!obj.missingWarned) console.warn(message);
+          obj.missingWarned = true;
+        };
         pass.setPipeline(pipeline.pipe);
         pass.setVertexBuffer(0, obj.vertexBuffer);
         pass.setVertexBuffer(1, obj.uvBuffer);
         pass.setVertexBuffer(2, obj.normalBuffer);
-        pass.setBindGroup(0, pipeline.bindGroup0.base, [stride * obj.pipelineIndex]);
+        if (pipeline.maxJoints) {
+          if (!obj.jointBuffer || !obj.weightBuffer) {
+            warnMissing(`Skinned object ${obj.pipelineIndex} is missing joint/weight buffers`);
+            return;
+          }
+          pass.setVertexBuffer(3, obj.jointBuffer);
+          pass.setVertexBuffer(4, obj.weightBuffer);
+          const jointStride = this.#jointStride(pipeline.maxJoints);
+          pass.setBindGroup(0, pipeline.bindGroup0.base, [stride * obj.pipelineIndex, jointStride * obj.pipelineIndex]);
+        } else {
+          pass.setBindGroup(0, pipeline.bindGroup0.base, [stride * obj.pipelineIndex]);
+        }
+        // optional vertex buffers follow the skinning buffers
+        let slot = pipeline.maxJoints ? 5 : 3;
+        if (pipeline.vertexColors) {
+          if (!obj.colorBuffer) {
+            warnMissing(`Object ${obj.pipelineIndex} is missing vertex colors`);
+            return;
+          }
+          pass.setVertexBuffer(slot++, obj.colorBuffer);
+        }
+        if (pipeline.tangents) {
+          if (!obj.tangentBuffer) {
+            warnMissing(`Object ${obj.pipelineIndex} is missing tangents`);
+            return;
+          }
+          pass.setVertexBuffer(slot++, obj.tangentBuffer);
+        }
         if (pipeline.bindGroup1) {
           const offsets: Array<number> = [];
           pipeline.bindGroup1.dynRef?.forEach(dyn => {
@@ -839,6 +1140,10 @@ class Renderer {
         obj.uvBuffer.destroy();
         obj.normalBuffer.destroy();
         obj.indexBuffer?.destroy();
+        obj.jointBuffer?.destroy();
+        obj.weightBuffer?.destroy();
+        obj.colorBuffer?.destroy();
+        obj.tangentBuffer?.destroy();
       });
       pipe.objects = [];
       pipe.bindGroup0.entries.forEach(bf => bf.destroy());
@@ -173,7 +173,9 @@ async function example3(renderer: Renderer): Promise<{ update:Function, resize:F
     model2.uvs,
     model2.normals,
     model2.index,
-    model2.indexCount
+    model2.indexCount,
+    1,
+    model2.indexType
   );
 
   function update(redraw:boolean = false) {
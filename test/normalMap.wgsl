@@ -0,0 +1,50 @@
+@group(0) @binding(0) var<uniform> mvp: MVP;
+@group(0) @binding(1) var txSampler: sampler;
+@group(0) @binding(2) var texture: texture_2d<f32>;
+@group(0) @binding(3) var normalMap: texture_2d<f32>;
+
+struct MVP {
+  model: mat4x4<f32>,
+  view: mat4x4<f32>,
+  proj: mat4x4<f32>,
+}
+
+struct VertIn {
+  @location(0) pos: vec3f,
+  @location(1) uv: vec2f,
+  @location(2) normal: vec3f,
+  @location(6) tangent: vec4f,
+}
+
+struct VertOut {
+  @builtin(position) pos: vec4f,
+  @location(0) uv: vec2f,
+  @location(1) normal: vec3f,
+  @location(2) tangent: vec4f,
+}
+
+@vertex
+fn vertexMain(input: VertIn) -> VertOut {
+  var out: VertOut;
+  let mvpMat = mvp.proj * mvp.view * mvp.model;
+  out.pos = mvpMat * vec4f(input.pos, 1);
+  out.uv = input.uv;
+  out.normal = (mvp.model * vec4f(input.normal, 0)).xyz;
+  out.tangent = vec4f((mvp.model * vec4f(input.tangent.xyz, 0)).xyz, input.tangent.w);
+  return out;
+}
+
+@fragment
+fn fragmentMain(input: VertOut) -> @location(0) vec4f {
+  // tangent space to world space
+  let n = normalize(input.normal);
+  let t = normalize(input.tangent.xyz);
+  let b = cross(n, t) * input.tangent.w;
+  let tbn = mat3x3f(t, b, n);
+  let mapped = textureSample(normalMap, txSampler, input.uv).xyz * 2.0 - 1.0;
+  let normal = normalize(tbn * mapped);
+  // simple directional light
+  let light = max(dot(normal, normalize(vec3f(0.5, 1, 1))), 0.1);
+  let color = textureSample(texture, txSampler, input.uv);
+  return vec4f(color.rgb * light, color.a);
+}
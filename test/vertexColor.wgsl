@@ -0,0 +1,33 @@
+@group(0) @binding(0) var<uniform> mvp: MVP;
+
+struct MVP {
+  model: mat4x4<f32>,
+  view: mat4x4<f32>,
+  proj: mat4x4<f32>,
+}
+
+struct VertIn {
+  @location(0) pos: vec3f,
+  @location(1) uv: vec2f,
+  @location(2) normal: vec3f,
+  @location(5) color: vec4f,
+}
+
+struct VertOut {
+  @builtin(position) pos: vec4f,
+  @location(0) color: vec4f,
+}
+
+@vertex
+fn vertexMain(input: VertIn) -> VertOut {
+  var out: VertOut;
+  let mvpMat = mvp.proj * mvp.view * mvp.model;
+  out.pos = mvpMat * vec4f(input.pos, 1);
+  out.color = input.color;
+  return out;
+}
+
+@fragment
+fn fragmentMain(input: VertOut) -> @location(0) vec4f {
+  return input.color;
+}